@@ -0,0 +1,283 @@
+/**
+ * AI Settings Panel
+ * Lets admins choose the default provider and model, tune generation,
+ * enter session API keys and ping each provider.
+ */
+
+import React, { useState } from 'react';
+import { Bot, Loader2, Save, Wifi, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { getAIStatus, pingProvider, type AIPingResult, type AIProvider } from '@/services/aiService';
+import {
+  getAISettings,
+  hasSessionApiKey,
+  saveAISettings,
+  setSessionApiKey,
+  type AISettings,
+} from '@/services/aiSettingsService';
+
+const PROVIDER_LABELS: Record<AIProvider, string> = {
+  chatgpt: 'ChatGPT (OpenAI)',
+  gemini: 'Gemini (Google)',
+  sonnet: 'Claude (Anthropic)',
+  ollama: 'Ollama (محلي)',
+  local: 'المساعد المدمج',
+};
+
+// Providers that need an API key
+const KEYED_PROVIDERS: AIProvider[] = ['chatgpt', 'gemini', 'sonnet'];
+
+const SOURCE_LABELS = {
+  firestore: 'محفوظة في Firestore',
+  local: 'محفوظة في هذا المتصفح',
+  default: 'الإعدادات الافتراضية',
+};
+
+const AISettingsPanel: React.FC = () => {
+  const initial = getAISettings();
+  const [draft, setDraft] = useState<AISettings>(initial.settings);
+  const [source, setSource] = useState(initial.source);
+  const [keys, setKeys] = useState<Partial<Record<AIProvider, string>>>({});
+  const [pings, setPings] = useState<Partial<Record<AIProvider, AIPingResult>>>({});
+  const [pinging, setPinging] = useState<AIProvider | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [status, setStatus] = useState(() => getAIStatus());
+
+  const updateDraft = (changes: Partial<AISettings>) => {
+    setDraft((current) => ({ ...current, ...changes }));
+    setNotice(null);
+  };
+
+  const toggleFallback = (provider: AIProvider, enabled: boolean) => {
+    updateDraft({
+      fallbackProviders: enabled
+        ? [...draft.fallbackProviders, provider]
+        : draft.fallbackProviders.filter((entry) => entry !== provider),
+    });
+  };
+
+  // Leaving the field empty keeps the current key; clearing is explicit
+  const applyKey = (provider: AIProvider) => {
+    if (!keys[provider]?.trim()) return;
+    setSessionApiKey(provider, keys[provider]);
+    setKeys((current) => ({ ...current, [provider]: '' }));
+    setStatus(getAIStatus());
+  };
+
+  const clearKey = (provider: AIProvider) => {
+    setSessionApiKey(provider, '');
+    setKeys((current) => ({ ...current, [provider]: '' }));
+    setStatus(getAIStatus());
+  };
+
+  const handlePing = async (provider: AIProvider) => {
+    setPinging(provider);
+    const result = await pingProvider({
+      provider,
+      apiKey: keys[provider] || undefined,
+      model: provider === draft.provider ? draft.model || undefined : undefined,
+      baseUrl: provider === draft.provider
+        ? draft.baseUrl || undefined
+        : provider === 'ollama' ? draft.ollamaBaseUrl || undefined : undefined,
+    });
+    setPings((current) => ({ ...current, [provider]: result }));
+    setPinging(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    const result = await saveAISettings(draft);
+    setIsSaving(false);
+
+    if (!result.success) {
+      setError(result.error || 'تعذر حفظ الإعدادات');
+      return;
+    }
+
+    setDraft(result.settings);
+    setSource(result.source);
+    setStatus(getAIStatus());
+    setNotice('تم حفظ الإعدادات وتطبيقها');
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Bot className="w-5 h-5" /> إعدادات الذكاء الاصطناعي</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          {SOURCE_LABELS[source]} · المزود الحالي: {PROVIDER_LABELS[status.currentProvider]} ({status.model}) ·
+          السلسلة: {status.providerChain.join(' ← ')}
+        </p>
+
+        <div className="grid md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label>المزود الافتراضي</Label>
+            <Select value={draft.provider} onValueChange={(value) => updateDraft({ provider: value as AIProvider })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {status.supportedProviders.map((provider) => (
+                  <SelectItem key={provider} value={provider}>{PROVIDER_LABELS[provider]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ai-model">النموذج</Label>
+            <Input
+              id="ai-model"
+              dir="ltr"
+              placeholder="افتراضي"
+              value={draft.model || ''}
+              onChange={(e) => updateDraft({ model: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ai-temperature">درجة الحرارة</Label>
+            <Input
+              id="ai-temperature"
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={draft.temperature}
+              onChange={(e) => updateDraft({ temperature: Number(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ai-max-tokens">الحد الأقصى للرموز</Label>
+            <Input
+              id="ai-max-tokens"
+              type="number"
+              min={1}
+              step={100}
+              value={draft.maxTokens}
+              onChange={(e) => updateDraft({ maxTokens: Number(e.target.value) })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="ai-base-url">رابط مخصص للمزود الافتراضي (اختياري)</Label>
+          <Input
+            id="ai-base-url"
+            dir="ltr"
+            placeholder="https://"
+            value={draft.baseUrl || ''}
+            onChange={(e) => updateDraft({ baseUrl: e.target.value })}
+          />
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-right">المزود</TableHead>
+              <TableHead className="text-right">احتياطي</TableHead>
+              <TableHead className="text-right">مفتاح API (لهذه الجلسة فقط)</TableHead>
+              <TableHead className="text-right">الاتصال</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {status.supportedProviders.filter((provider) => provider !== 'local').map((provider) => {
+              const ping = pings[provider];
+              return (
+                <TableRow key={provider}>
+                  <TableCell>{PROVIDER_LABELS[provider]}</TableCell>
+                  <TableCell>
+                    <Checkbox
+                      checked={draft.fallbackProviders.includes(provider)}
+                      disabled={provider === draft.provider}
+                      onCheckedChange={(checked) => toggleFallback(provider, checked === true)}
+                      aria-label="استخدام كمزود احتياطي"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {KEYED_PROVIDERS.includes(provider) ? (
+                      <div className="flex items-center gap-1">
+                        <Input
+                          type="password"
+                          dir="ltr"
+                          autoComplete="off"
+                          placeholder={hasSessionApiKey(provider) ? '••••••••' : ''}
+                          value={keys[provider] || ''}
+                          onChange={(e) => setKeys((current) => ({ ...current, [provider]: e.target.value }))}
+                          onBlur={() => applyKey(provider)}
+                          className="h-8"
+                        />
+                        {hasSessionApiKey(provider) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 shrink-0"
+                            onClick={() => clearKey(provider)}
+                            aria-label="حذف المفتاح"
+                            title="حذف المفتاح"
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    ) : provider === 'ollama' ? (
+                      <Input
+                        dir="ltr"
+                        placeholder="http://localhost:11434"
+                        value={draft.ollamaBaseUrl || ''}
+                        onChange={(e) => updateDraft({ ollamaBaseUrl: e.target.value })}
+                        aria-label="رابط خادم Ollama"
+                        className="h-8"
+                      />
+                    ) : (
+                      <span className="text-sm text-muted-foreground">لا يحتاج مفتاحاً</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="space-y-1">
+                    <Button variant="outline" size="sm" onClick={() => handlePing(provider)} disabled={pinging !== null}>
+                      {pinging === provider
+                        ? <Loader2 className="w-4 h-4 ml-2 animate-spin" />
+                        : <Wifi className="w-4 h-4 ml-2" />}
+                      اختبار
+                    </Button>
+                    {ping && (
+                      <p className={ping.success ? 'text-xs text-success' : 'text-xs text-destructive'} dir="auto">
+                        {ping.success ? `متصل (${ping.latencyMs}ms · ${ping.model})` : ping.error}
+                      </p>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {notice && (
+          <Alert>
+            <AlertDescription>{notice}</AlertDescription>
+          </Alert>
+        )}
+
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? <Loader2 className="w-4 h-4 ml-2 animate-spin" /> : <Save className="w-4 h-4 ml-2" />}
+          حفظ الإعدادات
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AISettingsPanel;
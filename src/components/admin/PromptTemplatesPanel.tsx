@@ -0,0 +1,207 @@
+/**
+ * Prompt Templates Panel
+ * Lets admins edit prompt templates; every save creates a new version.
+ */
+
+import React, { useState } from 'react';
+import { FileText, RotateCcw, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { AIProvider } from '@/services/aiService';
+import {
+  extractVariables,
+  getPromptVersions,
+  listPromptTemplates,
+  resetPromptTemplate,
+  savePromptTemplate,
+  type PromptTemplate,
+  type PromptTemplateInput,
+} from '@/services/promptService';
+
+// Select value meaning "use the configured provider chain"
+const DEFAULT_PROVIDER_VALUE = 'default';
+
+const PROVIDER_OPTIONS: AIProvider[] = ['chatgpt', 'gemini', 'sonnet', 'ollama', 'local'];
+
+const toKey = (template: PromptTemplate) => `${template.id}:${template.locale}`;
+
+const toInput = (template: PromptTemplate): PromptTemplateInput => ({
+  id: template.id,
+  locale: template.locale,
+  title: template.title,
+  system: template.system,
+  user: template.user,
+  provider: template.provider,
+  model: template.model,
+});
+
+const PromptTemplatesPanel: React.FC = () => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>(() => listPromptTemplates());
+  const [selectedKey, setSelectedKey] = useState<string>(() => (templates[0] ? toKey(templates[0]) : ''));
+  const [draft, setDraft] = useState<PromptTemplateInput | null>(() => (templates[0] ? toInput(templates[0]) : null));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const selected = templates.find((template) => toKey(template) === selectedKey);
+  const versions = selected ? getPromptVersions(selected.id, selected.locale) : [];
+  const variables = draft ? extractVariables(`${draft.system}\n${draft.user}`) : [];
+
+  const refresh = (key: string) => {
+    const next = listPromptTemplates();
+    const template = next.find((entry) => toKey(entry) === key) || next[0];
+    setTemplates(next);
+    setSelectedKey(template ? toKey(template) : '');
+    setDraft(template ? toInput(template) : null);
+  };
+
+  const handleSelect = (key: string) => {
+    const template = templates.find((entry) => toKey(entry) === key);
+    setSelectedKey(key);
+    setDraft(template ? toInput(template) : null);
+    setErrors([]);
+    setNotice(null);
+  };
+
+  const updateDraft = (changes: Partial<PromptTemplateInput>) => {
+    setDraft((current) => (current ? { ...current, ...changes } : current));
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const result = await savePromptTemplate(draft);
+    setErrors(result.errors);
+
+    if (result.success) {
+      setNotice(`تم حفظ الإصدار ${result.template.version}`);
+      refresh(toKey(result.template));
+    }
+  };
+
+  const handleReset = async () => {
+    if (!selected) return;
+    if (!(await resetPromptTemplate(selected.id, selected.locale))) {
+      setErrors(['تعذر استعادة القالب الأصلي']);
+      return;
+    }
+    setErrors([]);
+    setNotice('تمت استعادة القالب الأصلي');
+    refresh(selectedKey);
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader><CardTitle className="flex items-center gap-2"><FileText className="w-5 h-5" /> قوالب الأوامر</CardTitle></CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <Select value={selectedKey} onValueChange={handleSelect}>
+            <SelectTrigger className="w-64"><SelectValue placeholder="اختر قالباً" /></SelectTrigger>
+            <SelectContent>
+              {templates.map((template) => (
+                <SelectItem key={toKey(template)} value={toKey(template)}>
+                  {template.title} ({template.id} · {template.locale})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selected && (
+            <span className="text-sm text-muted-foreground">
+              الإصدار {selected.version} · {versions.length} إصدار
+            </span>
+          )}
+        </div>
+
+        {draft && (
+          <>
+            <div className="grid md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="prompt-title">العنوان</Label>
+                <Input id="prompt-title" value={draft.title} onChange={(e) => updateDraft({ title: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>المزود الافتراضي</Label>
+                <Select
+                  value={draft.provider || DEFAULT_PROVIDER_VALUE}
+                  onValueChange={(value) => updateDraft({
+                    provider: value === DEFAULT_PROVIDER_VALUE ? undefined : (value as AIProvider),
+                  })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_PROVIDER_VALUE}>حسب الإعدادات</SelectItem>
+                    {PROVIDER_OPTIONS.map((provider) => (
+                      <SelectItem key={provider} value={provider}>{provider}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="prompt-model">النموذج الافتراضي</Label>
+                <Input
+                  id="prompt-model"
+                  dir="ltr"
+                  placeholder="gpt-4o-mini"
+                  value={draft.model || ''}
+                  onChange={(e) => updateDraft({ model: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="prompt-system">رسالة النظام</Label>
+              <Textarea
+                id="prompt-system"
+                dir="auto"
+                rows={4}
+                value={draft.system}
+                onChange={(e) => updateDraft({ system: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="prompt-user">رسالة المستخدم</Label>
+              <Textarea
+                id="prompt-user"
+                dir="auto"
+                rows={3}
+                value={draft.user}
+                onChange={(e) => updateDraft({ user: e.target.value })}
+              />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-muted-foreground">المتغيرات:</span>
+              {variables.length === 0
+                ? <span className="text-muted-foreground">لا يوجد</span>
+                : variables.map((name) => <Badge key={name} variant="secondary" className="font-mono">{name}</Badge>)}
+            </div>
+
+            {errors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertDescription>{errors.join(' · ')}</AlertDescription>
+              </Alert>
+            )}
+            {notice && errors.length === 0 && (
+              <Alert>
+                <AlertDescription>{notice}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave}><Save className="w-4 h-4 ml-2" /> حفظ كإصدار جديد</Button>
+              <Button variant="outline" onClick={handleReset} disabled={!selected || selected.builtIn}>
+                <RotateCcw className="w-4 h-4 ml-2" /> استعادة الأصلي
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PromptTemplatesPanel;
@@ -0,0 +1,129 @@
+/**
+ * Import Project Dialog
+ * Uploads a ZIP archive, shows accepted and rejected files, and saves
+ * the project once the user confirms.
+ */
+
+import React, { useRef, useState } from 'react';
+import { FileWarning, Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { importProject, readProjectArchive, type ArchiveReadResult } from '@/services/importService';
+
+interface ImportProjectDialogProps {
+  userId: string;
+  disabled?: boolean;
+  onImported: () => void;
+}
+
+const ImportProjectDialog: React.FC<ImportProjectDialogProps> = ({ userId, disabled, onImported }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [archive, setArchive] = useState<ArchiveReadResult | null>(null);
+  const [name, setName] = useState('');
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsReading(true);
+    setError(null);
+    const result = await readProjectArchive(file, file.name);
+    setIsReading(false);
+
+    setArchive(result);
+    setName(result.name);
+  };
+
+  const handleSave = () => {
+    if (!archive?.success) return;
+
+    const result = importProject(userId, name, archive.files);
+    if (!result.success) {
+      setError(result.error || 'تعذر حفظ المشروع');
+      return;
+    }
+
+    setArchive(null);
+    onImported();
+  };
+
+  const close = () => {
+    setArchive(null);
+    setError(null);
+  };
+
+  return (
+    <>
+      <input ref={inputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleFile} />
+      <Button variant="outline" onClick={() => inputRef.current?.click()} disabled={disabled || isReading}>
+        {isReading ? <Loader2 className="w-4 h-4 ml-2 animate-spin" /> : <Upload className="w-4 h-4 ml-2" />}
+        استيراد مشروع
+      </Button>
+
+      <Dialog open={!!archive} onOpenChange={(open) => !open && close()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>استيراد مشروع</DialogTitle>
+            <DialogDescription>
+              {archive?.success
+                ? `${archive.files.length} ملف جاهز للاستيراد`
+                : archive?.error}
+            </DialogDescription>
+          </DialogHeader>
+
+          {archive?.success && (
+            <div className="space-y-2">
+              <Label htmlFor="import-name">اسم المشروع</Label>
+              <Input id="import-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+          )}
+
+          {archive && archive.rejected.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium flex items-center gap-2">
+                <FileWarning className="w-4 h-4 text-destructive" /> ملفات مرفوضة ({archive.rejected.length})
+              </p>
+              <ScrollArea className="max-h-48 rounded-md border border-border">
+                <ul className="p-2 space-y-1 text-sm">
+                  {archive.rejected.map((rejection) => (
+                    <li key={rejection.path}>
+                      <span className="font-mono" dir="ltr">{rejection.path}</span>
+                      <span className="text-muted-foreground"> — {rejection.errors.join('، ')}</span>
+                    </li>
+                  ))}
+                </ul>
+              </ScrollArea>
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={close}>إلغاء</Button>
+            {archive?.success && <Button onClick={handleSave}>حفظ المشروع</Button>}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ImportProjectDialog;
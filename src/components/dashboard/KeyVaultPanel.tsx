@@ -0,0 +1,170 @@
+/**
+ * Key Vault Panel
+ * Lets users keep their own provider API keys in the encrypted vault.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { KeyRound, Lock, Trash2, Unlock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { AIProvider } from '@/services/aiService';
+import {
+  createVault,
+  getVaultState,
+  isVaultAvailable,
+  lockVault,
+  removeVaultKey,
+  resetVault,
+  saveVaultKey,
+  subscribeToVault,
+  unlockVault,
+  type VaultResult,
+  type VaultState,
+} from '@/services/keyVaultService';
+
+const KEY_PROVIDERS: Array<{ value: AIProvider; label: string }> = [
+  { value: 'chatgpt', label: 'ChatGPT (OpenAI)' },
+  { value: 'gemini', label: 'Gemini (Google)' },
+  { value: 'sonnet', label: 'Claude (Anthropic)' },
+];
+
+const KeyVaultPanel: React.FC = () => {
+  const [state, setState] = useState<VaultState>({ exists: false, unlocked: false, providers: [] });
+  const [passphrase, setPassphrase] = useState('');
+  const [provider, setProvider] = useState<AIProvider>('chatgpt');
+  const [apiKey, setApiKey] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => getVaultState().then(setState);
+
+  useEffect(() => {
+    refresh();
+    return subscribeToVault(() => refresh());
+  }, []);
+
+  const run = async (action: () => Promise<VaultResult>) => {
+    setIsBusy(true);
+    setError(null);
+    const result = await action();
+    setIsBusy(false);
+
+    if (!result.success) {
+      setError(result.error || 'حدث خطأ');
+      return false;
+    }
+    await refresh();
+    return true;
+  };
+
+  const handleOpen = async () => {
+    const opened = await run(() => (state.exists ? unlockVault(passphrase) : createVault(passphrase)));
+    if (opened) setPassphrase('');
+  };
+
+  const handleSaveKey = async () => {
+    const saved = await run(() => saveVaultKey(provider, apiKey));
+    if (saved) setApiKey('');
+  };
+
+  const handleReset = () => {
+    if (window.confirm('سيتم حذف الخزنة وجميع المفاتيح المحفوظة. هل أنت متأكد؟')) {
+      run(resetVault);
+    }
+  };
+
+  if (!isVaultAvailable()) return null;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><KeyRound className="w-5 h-5" /> مفاتيح API الخاصة بي</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          تُحفظ المفاتيح مشفرة في هذا المتصفح فقط، وتُقفل الخزنة تلقائياً بعد فترة من عدم النشاط.
+        </p>
+
+        {!state.unlocked ? (
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="vault-passphrase">{state.exists ? 'كلمة مرور الخزنة' : 'اختر كلمة مرور للخزنة'}</Label>
+              <Input
+                id="vault-passphrase"
+                type="password"
+                autoComplete={state.exists ? 'current-password' : 'new-password'}
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleOpen()}
+                className="w-64"
+              />
+            </div>
+            <Button onClick={handleOpen} disabled={isBusy || !passphrase}>
+              <Unlock className="w-4 h-4 ml-2" /> {state.exists ? 'فتح الخزنة' : 'إنشاء الخزنة'}
+            </Button>
+            {state.exists && (
+              <Button variant="ghost" onClick={handleReset} disabled={isBusy}>نسيت كلمة المرور</Button>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              {state.providers.length === 0
+                ? <span className="text-sm text-muted-foreground">لا توجد مفاتيح محفوظة</span>
+                : state.providers.map((entry) => (
+                  <Badge key={entry} variant="secondary" className="gap-1">
+                    {KEY_PROVIDERS.find((option) => option.value === entry)?.label || entry}
+                    <button
+                      type="button"
+                      onClick={() => run(() => removeVaultKey(entry))}
+                      aria-label="حذف المفتاح"
+                      disabled={isBusy}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </Badge>
+                ))}
+            </div>
+
+            <div className="flex flex-wrap items-end gap-2">
+              <Select value={provider} onValueChange={(value) => setProvider(value as AIProvider)}>
+                <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {KEY_PROVIDERS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="password"
+                dir="ltr"
+                autoComplete="off"
+                placeholder="API key"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                className="w-72"
+              />
+              <Button onClick={handleSaveKey} disabled={isBusy || !apiKey.trim()}>حفظ المفتاح</Button>
+              <Button variant="outline" onClick={lockVault}>
+                <Lock className="w-4 h-4 ml-2" /> قفل
+              </Button>
+            </div>
+          </>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default KeyVaultPanel;
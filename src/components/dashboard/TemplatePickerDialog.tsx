@@ -0,0 +1,204 @@
+/**
+ * Template Picker Dialog
+ * Lets the user choose a starter template, set its parameters and
+ * download it as a ZIP, a tar.gz or a single HTML file.
+ */
+
+import React, { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { ExportFormat } from '@/services/downloadService';
+import {
+  DEFAULT_TEMPLATE_ID,
+  downloadTemplate,
+  getTemplate,
+  getTemplateExportFormats,
+  getTemplateThumbnail,
+  listTemplates,
+  type TemplateLanguage,
+  type TemplateParams,
+} from '@/services/templateService';
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  zip: 'ZIP',
+  'tar.gz': 'tar.gz',
+  html: 'ملف HTML واحد',
+};
+
+const TemplatePickerDialog: React.FC = () => {
+  const templates = listTemplates();
+  const [open, setOpen] = useState(false);
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE_ID);
+  const [params, setParams] = useState<TemplateParams>(getTemplate(DEFAULT_TEMPLATE_ID).defaults);
+  const [format, setFormat] = useState<ExportFormat>('zip');
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectTemplate = (id: string) => {
+    setTemplateId(id);
+    setParams(getTemplate(id).defaults);
+    if (!getTemplateExportFormats(getTemplate(id)).includes(format)) setFormat('zip');
+    setError(null);
+  };
+
+  const updateParams = (changes: Partial<TemplateParams>) => {
+    setParams((current) => ({ ...current, ...changes }));
+  };
+
+  const handleLanguage = (language: TemplateLanguage) => {
+    // Direction follows the language; it can still be changed afterwards
+    updateParams({ language, direction: language === 'ar' ? 'rtl' : 'ltr' });
+  };
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    setError(null);
+    const result = await downloadTemplate(templateId, params, format);
+    setIsDownloading(false);
+
+    if (!result.success) {
+      setError(result.error || 'فشل التحميل');
+      return;
+    }
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)}>
+        <Download className="w-4 h-4 ml-2" /> تحميل نموذج
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>اختر نموذجاً</DialogTitle>
+            <DialogDescription>اختر نقطة البداية وخصّص الاسم واللغة واللون</DialogDescription>
+          </DialogHeader>
+
+          <ScrollArea className="max-h-72">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3 p-1">
+              {templates.map((template) => (
+                <button
+                  key={template.id}
+                  type="button"
+                  onClick={() => selectTemplate(template.id)}
+                  className={`text-right rounded-lg border p-2 transition-colors ${
+                    template.id === templateId ? 'border-primary ring-2 ring-primary/30' : 'border-border hover:border-primary/50'
+                  }`}
+                >
+                  <img
+                    src={getTemplateThumbnail(template, template.id === templateId ? params.color : undefined)}
+                    alt=""
+                    className="w-full aspect-[4/3] rounded-md border border-border"
+                  />
+                  <p className="mt-2 font-medium text-sm">{template.title}</p>
+                  <p className="text-xs text-muted-foreground line-clamp-2">{template.description}</p>
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {template.tags.map((tag) => (
+                      <Badge key={tag} variant="secondary" className="text-[10px]">{tag}</Badge>
+                    ))}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">اسم المشروع</Label>
+              <Input id="template-name" value={params.name} onChange={(e) => updateParams({ name: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-color">اللون</Label>
+              <Input
+                id="template-color"
+                type="color"
+                value={params.color}
+                onChange={(e) => updateParams({ color: e.target.value })}
+                className="h-10 p-1"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>اللغة</Label>
+              <Select value={params.language} onValueChange={(value) => handleLanguage(value as TemplateLanguage)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ar">العربية</SelectItem>
+                  <SelectItem value="en">English</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>الاتجاه</Label>
+              <Select
+                value={params.direction}
+                onValueChange={(value) => updateParams({ direction: value as TemplateParams['direction'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="rtl">من اليمين إلى اليسار</SelectItem>
+                  <SelectItem value="ltr">من اليسار إلى اليمين</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>صيغة التحميل</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {getTemplateExportFormats(getTemplate(templateId)).map((option) => (
+                  <SelectItem key={option} value={option}>{FORMAT_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>إلغاء</Button>
+            <Button onClick={handleDownload} disabled={isDownloading}>
+              {isDownloading ? <Loader2 className="w-4 h-4 ml-2 animate-spin" /> : <Download className="w-4 h-4 ml-2" />}
+              تحميل
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default TemplatePickerDialog;
@@ -0,0 +1,41 @@
+/**
+ * Base64 Helpers
+ * ==============
+ * Conversions between bytes and base64 strings, used to keep binary
+ * project files in string form.
+ */
+
+// Bytes converted per String.fromCharCode call, to stay under argument limits
+const CHUNK_SIZE = 0x8000;
+
+/**
+ * Encode bytes as base64
+ */
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Decode base64 into bytes
+ */
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Get the number of bytes a base64 string decodes to, without decoding it
+ */
+export const getBase64ByteLength = (base64: string): number => {
+  const length = base64.replace(/\s/g, '').length;
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.max(0, Math.floor((length * 3) / 4) - padding);
+};
@@ -0,0 +1,59 @@
+/**
+ * IndexedDB Helpers
+ * =================
+ * Small promise wrappers shared by services that keep data in IndexedDB.
+ */
+
+/**
+ * Check if IndexedDB can be used in this environment
+ */
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Open a database, running upgrade when the version changes
+ */
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number) => void
+): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error(`IndexedDB "${name}" is blocked by another tab`));
+  });
+};
+
+/**
+ * Run work against a single object store and wait for the transaction
+ * to complete
+ */
+export const withStore = async <T>(
+  db: IDBDatabase,
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> => {
+  const transaction = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  const result = await work(transaction.objectStore(storeName));
+  await done;
+  return result;
+};
@@ -0,0 +1,245 @@
+/**
+ * Template Engine
+ * ===============
+ * Small templating language for generated project files. Values are
+ * escaped for the context they land in, chosen from the file extension
+ * or set per tag.
+ *
+ *   {{ name }}                  value, escaped for the file's context
+ *   {{ name | js }}             value with an explicit escape mode
+ *   {{#if language == "ar"}}…{{else}}…{{/if}}
+ *   {{#each features as item}}{{ item.title }}{{/each}}
+ *   \{{ count }}                literal "{{ count }}" (e.g. Vue templates)
+ */
+
+export type EscapeMode = 'html' | 'js' | 'json' | 'markdown' | 'css' | 'raw';
+
+export type TemplateValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | TemplateValue[]
+  | { [key: string]: TemplateValue };
+
+export type TemplateContext = Record<string, TemplateValue>;
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'value'; path: string; mode?: EscapeMode }
+  | { type: 'if'; condition: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; alias: string; body: TemplateNode[] };
+
+const ESCAPE_MODES: EscapeMode[] = ['html', 'js', 'json', 'markdown', 'css', 'raw'];
+
+// Default escape mode per file extension
+const EXTENSION_MODES: Record<string, EscapeMode> = {
+  '.html': 'html',
+  '.htm': 'html',
+  '.svg': 'html',
+  '.vue': 'html',
+  '.jsx': 'html',
+  '.tsx': 'html',
+  '.js': 'js',
+  '.mjs': 'js',
+  '.ts': 'js',
+  '.json': 'json',
+  '.md': 'markdown',
+  '.css': 'css',
+};
+
+const TAG_PATTERN = /\\\{\{|\{\{\s*([#/]?)([^{}]*?)\s*\}\}/g;
+const PATH_PATTERN = /^[A-Za-z_$][\w$]*(?:\.[\w$]+)*$/;
+const CONDITION_PATTERN = /^(!?)\s*([\w$.]+)(?:\s*(==|!=)\s*(?:"([^"]*)"|'([^']*)'))?$/;
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+  '`': '&#96;',
+  // Braces would open expressions in JSX and Vue templates
+  '{': '&#123;',
+  '}': '&#125;',
+};
+
+/**
+ * Escape a value for the given context
+ */
+export const escapeValue = (value: string, mode: EscapeMode): string => {
+  switch (mode) {
+    case 'html':
+      return value.replace(/[&<>"'`{}]/g, (char) => HTML_ENTITIES[char]);
+    case 'js':
+      // Safe inside '', "" and `` strings, and inside an inline <script>
+      return value.replace(/[\\'"`$<>\n\r\u2028\u2029]/g, (char) => {
+        if (char === '\n') return '\\n';
+        if (char === '\r') return '\\r';
+        if (char === '$' || char === '`' || char === '\'' || char === '"') return `\\${char}`;
+        return `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`;
+      });
+    case 'json':
+      return JSON.stringify(value).slice(1, -1).replace(/</g, '\\u003c').replace(/>/g, '\\u003e');
+    case 'markdown':
+      // Inline specials; values are not placed at the start of a line
+      return value
+        .replace(/[\\`*_[\]#|~]/g, '\\$&')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+    case 'css':
+      // Per code point, so astral characters get one escape; newlines
+      // are escaped because they would end a CSS string
+      return value.replace(/[^\w #.,%()-]/gu, (char) => `\\${char.codePointAt(0).toString(16)} `);
+    case 'raw':
+      return value;
+  }
+};
+
+/**
+ * Pick the escape mode for a file from its extension
+ */
+export const getEscapeMode = (path: string): EscapeMode => {
+  const dot = path.lastIndexOf('.');
+  return dot === -1 ? 'raw' : EXTENSION_MODES[path.slice(dot).toLowerCase()] || 'raw';
+};
+
+/**
+ * Parse a template into a tree; throws on malformed tags
+ */
+const parseTemplate = (source: string): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  // Open blocks, innermost last; `target` is where children are added
+  const stack: { node: TemplateNode; target: TemplateNode[] }[] = [];
+  let target = root;
+  let lastIndex = 0;
+
+  const addText = (value: string) => {
+    if (value) target.push({ type: 'text', value });
+  };
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    addText(source.slice(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+
+    if (match[0] === '\\{{') {
+      addText('{{');
+      continue;
+    }
+
+    const [, sigil, body] = match;
+
+    if (sigil === '#') {
+      const [keyword, ...rest] = body.split(/\s+/);
+      let node: TemplateNode;
+
+      if (keyword === 'if') {
+        const condition = rest.join(' ');
+        if (!CONDITION_PATTERN.test(condition)) throw new Error(`Invalid condition: ${condition}`);
+        node = { type: 'if', condition, then: [], otherwise: [] };
+      } else if (keyword === 'each' && rest.length === 3 && rest[1] === 'as' && PATH_PATTERN.test(rest[0])) {
+        node = { type: 'each', path: rest[0], alias: rest[2], body: [] };
+      } else {
+        throw new Error(`Invalid block: {{#${body}}}`);
+      }
+
+      target.push(node);
+      stack.push({ node, target });
+      target = node.type === 'if' ? node.then : node.body;
+    } else if (sigil === '/') {
+      const open = stack.pop();
+      if (!open || open.node.type !== body) throw new Error(`Unexpected {{/${body}}}`);
+      target = open.target;
+    } else if (body === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.node.type !== 'if' || target !== open.node.then) throw new Error('Unexpected {{else}}');
+      target = open.node.otherwise;
+    } else {
+      const [path, mode] = body.split('|').map((part) => part.trim());
+      if (!PATH_PATTERN.test(path)) throw new Error(`Invalid expression: {{${body}}}`);
+      if (mode !== undefined && !ESCAPE_MODES.includes(mode as EscapeMode)) throw new Error(`Unknown escape mode: ${mode}`);
+      target.push({ type: 'value', path, mode: mode as EscapeMode | undefined });
+    }
+  }
+
+  if (stack.length > 0) throw new Error(`Unclosed {{#${stack[stack.length - 1].node.type}}}`);
+  addText(source.slice(lastIndex));
+  return root;
+};
+
+/**
+ * Look up a dotted path in the context
+ */
+const resolvePath = (context: TemplateContext, path: string): TemplateValue => {
+  let value: TemplateValue = context;
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, key)) {
+      return undefined;
+    }
+    value = (value as Record<string, TemplateValue>)[key];
+  }
+  return value;
+};
+
+/**
+ * Evaluate an {{#if}} condition
+ */
+const evaluateCondition = (context: TemplateContext, condition: string): boolean => {
+  const [, negate, path, operator, doubleQuoted, singleQuoted] = CONDITION_PATTERN.exec(condition);
+  const value = resolvePath(context, path);
+  let result: boolean;
+
+  if (operator) {
+    const equal = String(value) === (doubleQuoted ?? singleQuoted);
+    result = operator === '==' ? equal : !equal;
+  } else {
+    result = Array.isArray(value) ? value.length > 0 : Boolean(value);
+  }
+
+  return negate ? !result : result;
+};
+
+/**
+ * Render parsed nodes
+ */
+const renderNodes = (nodes: TemplateNode[], context: TemplateContext, mode: EscapeMode): string => {
+  return nodes.map((node) => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'value': {
+        const value = resolvePath(context, node.path);
+        if (value === undefined || value === null) throw new Error(`Missing template value: ${node.path}`);
+        if (typeof value === 'object') throw new Error(`Template value is not printable: ${node.path}`);
+        return escapeValue(String(value), node.mode || mode);
+      }
+      case 'if':
+        return renderNodes(evaluateCondition(context, node.condition) ? node.then : node.otherwise, context, mode);
+      case 'each': {
+        const items = resolvePath(context, node.path);
+        if (items === undefined) return '';
+        if (!Array.isArray(items)) throw new Error(`Template value is not a list: ${node.path}`);
+        return items.map((item) => renderNodes(node.body, { ...context, [node.alias]: item }, mode)).join('');
+      }
+    }
+  }).join('');
+};
+
+/**
+ * Render a template string; throws on malformed templates or missing values
+ */
+export const renderTemplate = (source: string, context: TemplateContext, mode: EscapeMode = 'raw'): string => {
+  return renderNodes(parseTemplate(source), context, mode);
+};
+
+/**
+ * Render a file's content, escaping for the file's type
+ */
+export const renderTemplateFile = <T extends { path: string; content: string }>(
+  file: T,
+  context: TemplateContext
+): T => ({
+  ...file,
+  content: renderTemplate(file.content, context, getEscapeMode(file.path)),
+});
@@ -0,0 +1,73 @@
+/**
+ * Zod to JSON Schema
+ * ==================
+ * Minimal converter covering the zod types we use for AI structured
+ * outputs and tool parameters. Unsupported types become {} (any).
+ */
+
+import { z } from 'zod';
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Convert a zod schema to a JSON Schema object
+ */
+export const zodToJsonSchema = (schema: z.ZodTypeAny): JsonSchema => {
+  const withDescription = (json: JsonSchema): JsonSchema => {
+    return schema.description ? { ...json, description: schema.description } : json;
+  };
+  
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return withDescription(zodToJsonSchema(schema.unwrap()));
+  }
+  if (schema instanceof z.ZodDefault) {
+    return withDescription({
+      ...zodToJsonSchema(schema._def.innerType),
+      default: schema._def.defaultValue(),
+    });
+  }
+  if (schema instanceof z.ZodEffects) {
+    return withDescription(zodToJsonSchema(schema.innerType()));
+  }
+  if (schema instanceof z.ZodString) {
+    return withDescription({ type: 'string' });
+  }
+  if (schema instanceof z.ZodNumber) {
+    return withDescription({ type: schema.isInt ? 'integer' : 'number' });
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return withDescription({ type: 'boolean' });
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return withDescription({ const: schema.value });
+  }
+  if (schema instanceof z.ZodEnum) {
+    return withDescription({ type: 'string', enum: [...schema.options] });
+  }
+  if (schema instanceof z.ZodArray) {
+    return withDescription({ type: 'array', items: zodToJsonSchema(schema.element) });
+  }
+  if (schema instanceof z.ZodRecord) {
+    return withDescription({ type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema) });
+  }
+  if (schema instanceof z.ZodUnion) {
+    return withDescription({
+      anyOf: (schema.options as z.ZodTypeAny[]).map((option) => zodToJsonSchema(option)),
+    });
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.keys(shape).filter((key) => !shape[key].isOptional());
+    
+    return withDescription({
+      type: 'object',
+      properties: Object.fromEntries(
+        Object.entries(shape).map(([key, value]) => [key, zodToJsonSchema(value)])
+      ),
+      required,
+      additionalProperties: false,
+    });
+  }
+  
+  return withDescription({});
+};
@@ -1,5 +1,11 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import { loadAISettings } from "./services/aiSettingsService";
+import { loadPromptTemplates } from "./services/promptService";
+
+// Apply the persisted AI settings and prompt templates before the first request
+loadAISettings();
+loadPromptTemplates();
 
 createRoot(document.getElementById("root")!).render(<App />);
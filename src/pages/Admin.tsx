@@ -4,17 +4,22 @@
 
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { Users, FolderOpen, Star, LogOut, Sparkles, Activity, Bell } from 'lucide-react';
+import { Users, FolderOpen, Star, LogOut, Sparkles, Activity, Bell, Coins } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import AISettingsPanel from '@/components/admin/AISettingsPanel';
+import PromptTemplatesPanel from '@/components/admin/PromptTemplatesPanel';
 import { useAuth } from '@/contexts/AuthContext';
 import { getLoginStats } from '@/services/loginLogger';
 import { getAllUserQuotas } from '@/services/quotaService';
+import { getAllUsageLedgers } from '@/services/usageService';
 
 const AdminDashboard: React.FC = () => {
   const { user, logout, isAdmin } = useAuth();
   const loginStats = getLoginStats();
   const quotas = getAllUserQuotas();
+  const usageLedgers = getAllUsageLedgers();
 
   if (!isAdmin) {
     return (
@@ -65,6 +70,41 @@ const AdminDashboard: React.FC = () => {
           </Card>
         </div>
 
+        <Card className="mb-8">
+          <CardHeader><CardTitle className="flex items-center gap-2"><Coins className="w-5 h-5" /> استهلاك الذكاء الاصطناعي</CardTitle></CardHeader>
+          <CardContent>
+            {usageLedgers.length === 0 ? (
+              <p className="text-muted-foreground">لا توجد طلبات بعد</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">المستخدم</TableHead>
+                    <TableHead className="text-right">الطلبات</TableHead>
+                    <TableHead className="text-right">رموز الإدخال</TableHead>
+                    <TableHead className="text-right">رموز الإخراج</TableHead>
+                    <TableHead className="text-right">التكلفة (USD)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {usageLedgers.map((ledger) => (
+                    <TableRow key={ledger.userId}>
+                      <TableCell className="font-mono text-xs">{ledger.userId}</TableCell>
+                      <TableCell>{ledger.calls}</TableCell>
+                      <TableCell>{ledger.promptTokens.toLocaleString()}</TableCell>
+                      <TableCell>{ledger.completionTokens.toLocaleString()}</TableCell>
+                      <TableCell>${ledger.costUSD.toFixed(4)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <AISettingsPanel />
+        <PromptTemplatesPanel />
+
         <Card>
           <CardHeader><CardTitle><Bell className="w-5 h-5 inline ml-2" /> التحديثات القادمة</CardTitle></CardHeader>
           <CardContent>
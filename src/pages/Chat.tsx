@@ -0,0 +1,495 @@
+/**
+ * AI Chat
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Sparkles, Plus, Send, Square, Pencil, Trash2, Download, MessageSquare, ArrowRight, FileCode, ShieldAlert,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
+import { sanitizeModelOutput } from '@/services/aiGuardService';
+import { streamUserMessage, type AIMessage, type AIResponse } from '@/services/aiService';
+import {
+  performAssistantAction,
+  type AssistantAction,
+  type AssistantActionResult,
+} from '@/services/localAssistantService';
+import {
+  createChatMessage,
+  createConversation,
+  deleteConversation,
+  exportConversation,
+  listConversations,
+  renameConversation,
+  saveConversation,
+  type ChatMessage,
+  type Conversation,
+} from '@/services/chatService';
+import { getUserProjects } from '@/services/projectService';
+import { markCitedSources, retrieveProjectContext } from '@/services/retrievalService';
+
+// Select value for chatting without project context
+const NO_PROJECT_VALUE = 'none';
+
+const ChatPage: React.FC = () => {
+  const { user } = useAuth();
+  const userId = user?.uid || 'guest';
+
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [input, setInput] = useState('');
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [deleteTarget, setDeleteTarget] = useState<Conversation | null>(null);
+  const [projectId, setProjectId] = useState<string>(NO_PROJECT_VALUE);
+  const [runningActionId, setRunningActionId] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const activeConversation = conversations.find((entry) => entry.id === activeId) || null;
+  const projects = getUserProjects(userId);
+
+  // Load conversations for the current user
+  useEffect(() => {
+    listConversations(userId)
+      .then((loaded) => {
+        setConversations(loaded);
+        setActiveId(loaded[0]?.id ?? null);
+      })
+      .catch((err) => {
+        console.error('[Chat] Failed to load conversations:', err);
+        setError('تعذر تحميل المحادثات');
+      });
+  }, [userId]);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [activeConversation?.messages]);
+
+  // Stop any running stream when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const upsertConversation = (conversation: Conversation) => {
+    setConversations((prev) => [conversation, ...prev.filter((entry) => entry.id !== conversation.id)]);
+  };
+
+  const handleNewConversation = () => {
+    setActiveId(null);
+    setInput('');
+    setError(null);
+  };
+
+  const handleSend = async () => {
+    const text = input.trim();
+    if (!text || isStreaming) return;
+
+    setError(null);
+    setInput('');
+
+    const base = activeConversation ?? createConversation();
+    const conversation: Conversation = {
+      ...base,
+      messages: [...base.messages, createChatMessage('user', text)],
+    };
+    const placeholder = createChatMessage('assistant', '');
+    const showReply = (reply: ChatMessage) => {
+      upsertConversation({ ...conversation, messages: [...conversation.messages, reply] });
+    };
+
+    showReply(placeholder);
+    setActiveId(conversation.id);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsStreaming(true);
+
+    let content = '';
+    let final: AIResponse | null = null;
+
+    // Ground the answer in the selected project's most relevant files
+    const projectContext = projectId === NO_PROJECT_VALUE
+      ? null
+      : retrieveProjectContext(userId, projectId, text);
+
+    try {
+      // Failed or aborted replies are not resent; providers reject empty turns
+      const history: AIMessage[] = conversation.messages
+        .filter((message) => message.role !== 'assistant' || (message.content.trim() && !message.error))
+        .map(({ role, content }) => ({ role, content }));
+      if (projectContext?.message) history.unshift(projectContext.message);
+
+      for await (const event of streamUserMessage(userId, history, { signal: controller.signal })) {
+        if (event.type === 'delta') {
+          content += event.text;
+          showReply({ ...placeholder, content });
+        } else {
+          final = event.response;
+        }
+      }
+    } catch (err) {
+      console.error('[Chat] Stream failed:', err);
+    } finally {
+      abortRef.current = null;
+      setIsStreaming(false);
+    }
+
+    const reply: ChatMessage = {
+      ...placeholder,
+      content: final?.message || content,
+      provider: final?.provider,
+      error: final?.success ? undefined : final?.error || 'تعذر الحصول على رد',
+      citations: projectContext?.citations.length
+        ? markCitedSources(final?.message || content, projectContext.citations)
+        : undefined,
+      action: final?.action,
+    };
+
+    if (!reply.content && reply.error) {
+      setError(reply.error);
+    }
+
+    const answered: Conversation = { ...conversation, messages: [...conversation.messages, reply] };
+
+    // Read-only actions (e.g. showing the quota) run right away
+    if (reply.action && !reply.action.requiresConfirmation) {
+      await handleAction(answered, reply.id, reply.action);
+      return;
+    }
+
+    await persistConversation(answered);
+  };
+
+  const persistConversation = async (conversation: Conversation) => {
+    try {
+      upsertConversation(await saveConversation(userId, conversation));
+    } catch (err) {
+      console.error('[Chat] Failed to save conversation:', err);
+      setError('تعذر حفظ المحادثة');
+    }
+  };
+
+  // Run an assistant action and answer with its result; the action is
+  // removed from its message so it cannot run twice
+  const handleAction = async (conversation: Conversation, messageId: string, action: AssistantAction) => {
+    setRunningActionId(messageId);
+    let result: AssistantActionResult;
+    try {
+      result = await performAssistantAction(userId, action);
+    } catch (err) {
+      console.error('[Chat] Action failed:', err);
+      result = { success: false, message: 'تعذر تنفيذ الإجراء' };
+    } finally {
+      setRunningActionId(null);
+    }
+
+    const messages = conversation.messages.map((message) =>
+      message.id === messageId ? { ...message, action: undefined } : message
+    );
+    const outcome: ChatMessage = {
+      ...createChatMessage('assistant', result.message),
+      provider: 'local',
+      error: result.success ? undefined : result.message,
+    };
+
+    await persistConversation({ ...conversation, messages: [...messages, outcome] });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditTitle(conversation.title);
+  };
+
+  const commitRename = async () => {
+    const conversation = conversations.find((entry) => entry.id === editingId);
+    setEditingId(null);
+    if (!conversation || editTitle.trim() === conversation.title) return;
+
+    try {
+      upsertConversation(await renameConversation(userId, conversation, editTitle));
+    } catch (err) {
+      console.error('[Chat] Failed to rename conversation:', err);
+      setError('تعذرت إعادة التسمية');
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleteTarget) return;
+    const target = deleteTarget;
+    setDeleteTarget(null);
+
+    try {
+      await deleteConversation(userId, target.id);
+      setConversations((prev) => prev.filter((entry) => entry.id !== target.id));
+      if (activeId === target.id) setActiveId(null);
+    } catch (err) {
+      console.error('[Chat] Failed to delete conversation:', err);
+      setError('تعذر حذف المحادثة');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <nav className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <Link to="/" className="flex items-center gap-2">
+            <div className="w-8 h-8 rounded-lg gradient-primary flex items-center justify-center">
+              <Sparkles className="w-4 h-4 text-primary-foreground" />
+            </div>
+            <span className="font-bold">NTFLY Studio</span>
+          </Link>
+          <Link to="/dashboard">
+            <Button variant="ghost" size="sm">
+              <ArrowRight className="w-4 h-4 ml-2" /> لوحة التحكم
+            </Button>
+          </Link>
+        </div>
+      </nav>
+
+      <main className="container mx-auto px-4 py-6 flex-1 grid md:grid-cols-[280px_1fr] gap-6 min-h-0">
+        <aside className="border border-border rounded-lg bg-card flex flex-col min-h-0">
+          <div className="p-3 border-b border-border">
+            <Button className="w-full gradient-primary text-primary-foreground" onClick={handleNewConversation}>
+              <Plus className="w-4 h-4 ml-2" /> محادثة جديدة
+            </Button>
+          </div>
+          <ScrollArea className="flex-1 max-h-[70vh]">
+            <ul className="p-2 space-y-1">
+              {conversations.length === 0 && (
+                <li className="p-3 text-sm text-muted-foreground">لا توجد محادثات بعد</li>
+              )}
+              {conversations.map((conversation) => (
+                <li
+                  key={conversation.id}
+                  className={cn(
+                    'group flex items-center gap-1 rounded-md px-2 py-1',
+                    conversation.id === activeId ? 'bg-muted' : 'hover:bg-muted/50'
+                  )}
+                >
+                  {editingId === conversation.id ? (
+                    <Input
+                      autoFocus
+                      value={editTitle}
+                      onChange={(e) => setEditTitle(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="h-8"
+                    />
+                  ) : (
+                    <>
+                      <button
+                        className="flex-1 flex items-center gap-2 text-right text-sm truncate py-1"
+                        onClick={() => setActiveId(conversation.id)}
+                      >
+                        <MessageSquare className="w-4 h-4 shrink-0" />
+                        <span className="truncate">{conversation.title}</span>
+                      </button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                        onClick={() => startRename(conversation)}
+                        aria-label="إعادة تسمية"
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </Button>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                            aria-label="تصدير"
+                          >
+                            <Download className="w-3 h-3" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => exportConversation(conversation, 'markdown')}>
+                            Markdown
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => exportConversation(conversation, 'json')}>
+                            JSON
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 opacity-0 group-hover:opacity-100 text-destructive"
+                        onClick={() => setDeleteTarget(conversation)}
+                        aria-label="حذف"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        </aside>
+
+        <section className="border border-border rounded-lg bg-card flex flex-col min-h-[70vh]">
+          <ScrollArea className="flex-1 max-h-[60vh]">
+            <div className="p-4 space-y-4">
+              {!activeConversation || activeConversation.messages.length === 0 ? (
+                <div className="text-center text-muted-foreground py-16">
+                  <Sparkles className="w-8 h-8 mx-auto mb-4" />
+                  <p>اكتب سؤالك للبدء</p>
+                </div>
+              ) : (
+                activeConversation.messages.map((message) => (
+                  <div
+                    key={message.id}
+                    className={cn('flex', message.role === 'user' ? 'justify-start' : 'justify-end')}
+                  >
+                    <div
+                      className={cn(
+                        'max-w-[80%] rounded-lg px-4 py-2 whitespace-pre-wrap break-words',
+                        message.role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                      )}
+                    >
+                      {message.role === 'assistant' ? sanitizeModelOutput(message.content) : message.content}
+                      {!message.content && isStreaming && '…'}
+                      {message.citations && message.citations.length > 0 && (
+                        <ul className="mt-2 space-y-0.5 text-xs opacity-80" dir="ltr">
+                          {message.citations.map((citation) => (
+                            <li key={citation.index} className={cn('flex items-center gap-1', !citation.cited && 'opacity-60')}>
+                              [{citation.index}] {citation.path}:{citation.startLine}-{citation.endLine}
+                              {citation.injectionPhrases && (
+                                <ShieldAlert
+                                  className="w-3 h-3 text-destructive"
+                                  aria-label="يحتوي على تعليمات مشبوهة"
+                                />
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {message.action?.requiresConfirmation && activeConversation && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="mt-2 block"
+                          disabled={runningActionId !== null || isStreaming}
+                          onClick={() => handleAction(activeConversation, message.id, message.action)}
+                        >
+                          {message.action.label}
+                        </Button>
+                      )}
+                      {message.provider && (
+                        <div className="mt-1 text-xs opacity-60">{message.provider}</div>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+              <div ref={bottomRef} />
+            </div>
+          </ScrollArea>
+
+          {error && (
+            <Alert variant="destructive" className="mx-4 mb-2 w-auto">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {projects.length > 0 && (
+            <div className="px-4 pt-3 flex items-center gap-2 text-sm text-muted-foreground">
+              <FileCode className="w-4 h-4" />
+              <span>سياق المشروع:</span>
+              <Select value={projectId} onValueChange={setProjectId} disabled={isStreaming}>
+                <SelectTrigger className="h-8 w-56"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PROJECT_VALUE}>بدون مشروع</SelectItem>
+                  {projects.map((project) => (
+                    <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="border-t border-border p-4 flex gap-2 items-end">
+            <Textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="اكتب رسالتك..."
+              className="min-h-[60px] resize-none"
+              disabled={isStreaming}
+            />
+            {isStreaming ? (
+              <Button variant="outline" onClick={() => abortRef.current?.abort()} aria-label="إيقاف">
+                <Square className="w-4 h-4" />
+              </Button>
+            ) : (
+              <Button
+                className="gradient-primary text-primary-foreground"
+                onClick={handleSend}
+                disabled={!input.trim()}
+                aria-label="إرسال"
+              >
+                <Send className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </section>
+      </main>
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>حذف المحادثة؟</AlertDialogTitle>
+            <AlertDialogDescription>
+              سيتم حذف "{deleteTarget?.title}" نهائياً.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>إلغاء</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>حذف</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ChatPage;
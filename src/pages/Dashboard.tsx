@@ -2,22 +2,24 @@
  * User Dashboard
  */
 
-import React from 'react';
+import React, { useReducer } from 'react';
 import { Link } from 'react-router-dom';
-import { Plus, Download, Eye, LogOut, Sparkles, FolderOpen } from 'lucide-react';
+import { Plus, Eye, LogOut, Sparkles, FolderOpen, MessageSquare } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import ImportProjectDialog from '@/components/dashboard/ImportProjectDialog';
+import KeyVaultPanel from '@/components/dashboard/KeyVaultPanel';
+import TemplatePickerDialog from '@/components/dashboard/TemplatePickerDialog';
 import { useAuth } from '@/contexts/AuthContext';
 import { canCreateProject } from '@/services/quotaService';
-import { downloadDemoProject } from '@/services/downloadService';
+import { getUserProjects } from '@/services/projectService';
 
 const Dashboard: React.FC = () => {
   const { user, logout, isAdmin } = useAuth();
+  // Re-read projects and quota after an import
+  const [, refresh] = useReducer((count: number) => count + 1, 0);
   const quota = canCreateProject(user?.uid || 'guest');
-
-  const handleDownload = async () => {
-    await downloadDemoProject('my-project');
-  };
+  const projects = getUserProjects(user?.uid || 'guest');
 
   return (
     <div className="min-h-screen bg-background">
@@ -52,7 +54,7 @@ const Dashboard: React.FC = () => {
         <div className="grid md:grid-cols-3 gap-6 mb-8">
           <Card>
             <CardHeader><CardTitle className="flex items-center gap-2"><FolderOpen className="w-5 h-5" /> مشاريعي</CardTitle></CardHeader>
-            <CardContent><p className="text-3xl font-bold">0</p></CardContent>
+            <CardContent><p className="text-3xl font-bold">{projects.length}</p></CardContent>
           </Card>
           <Card>
             <CardHeader><CardTitle>المتبقي اليوم</CardTitle></CardHeader>
@@ -64,13 +66,17 @@ const Dashboard: React.FC = () => {
           </Card>
         </div>
 
+        <KeyVaultPanel />
+
         <div className="flex gap-4">
           <Button className="gradient-primary text-primary-foreground" disabled={!quota.allowed}>
             <Plus className="w-4 h-4 ml-2" /> مشروع جديد
           </Button>
-          <Button variant="outline" onClick={handleDownload}>
-            <Download className="w-4 h-4 ml-2" /> تحميل نموذج
-          </Button>
+          <ImportProjectDialog userId={user?.uid || 'guest'} disabled={!quota.allowed} onImported={refresh} />
+          <TemplatePickerDialog />
+          <Link to="/chat">
+            <Button variant="outline"><MessageSquare className="w-4 h-4 ml-2" /> المساعد الذكي</Button>
+          </Link>
           <Link to="/preview">
             <Button variant="outline"><Eye className="w-4 h-4 ml-2" /> معاينة</Button>
           </Link>
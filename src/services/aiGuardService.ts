@@ -0,0 +1,200 @@
+/**
+ * AI Guard Service
+ * ================
+ * Screens AI traffic: redacts secrets from outgoing messages (text,
+ * tool call arguments and tool results), flags prompt-injection
+ * phrases in untrusted content, and sanitizes HTML the model returns
+ * before it is rendered or exported.
+ */
+
+import type { AIMessage } from './aiService';
+import type { ProjectFile } from './downloadService';
+import { sanitizeHTML } from './securityService';
+
+export type SecretType =
+  | 'private_key'
+  | 'anthropic_key'
+  | 'openai_key'
+  | 'google_key'
+  | 'aws_access_key'
+  | 'github_token'
+  | 'slack_token'
+  | 'jwt'
+  | 'bearer_token'
+  | 'credential_assignment';
+
+export interface SecretRedaction {
+  type: SecretType;
+  count: number;
+}
+
+export interface GuardedMessages {
+  messages: AIMessage[];
+  redactions: SecretRedaction[];
+}
+
+// Ordered so specific formats win over generic ones (sk-ant- before sk-)
+const SECRET_PATTERNS: Array<{ type: SecretType; pattern: RegExp }> = [
+  { type: 'private_key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { type: 'anthropic_key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { type: 'openai_key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { type: 'google_key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { type: 'aws_access_key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { type: 'github_token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { type: 'slack_token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { type: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  { type: 'bearer_token', pattern: /\bBearer\s+[A-Za-z0-9._~+/-]{20,}=*/g },
+];
+
+// key = "value" assignments; only the value is redacted
+const CREDENTIAL_ASSIGNMENT_PATTERN =
+  /\b((?:api[_-]?key|secret|client[_-]?secret|access[_-]?token|auth[_-]?token|password|passwd)["']?\s*[:=]\s*["']?)([^\s"'`,;]{8,})/gi;
+
+// Phrases that try to override the assistant's instructions
+const INJECTION_PATTERNS: RegExp[] = [
+  /\b(?:ignore|disregard|forget|override)\s+(?:all\s+|any\s+)?(?:the\s+)?(?:previous|prior|above|earlier|system)\s+(?:instructions|prompts?|rules|messages)/i,
+  /\byou\s+are\s+now\s+(?:a|an|in)\b/i,
+  /\b(?:reveal|print|show|repeat)\s+(?:your|the)\s+(?:system\s+prompt|instructions|hidden\s+prompt)/i,
+  /\bnew\s+instructions\s*:/i,
+  /\bdo\s+not\s+(?:tell|inform)\s+the\s+user\b/i,
+  /<\|(?:im_start|im_end|system|endoftext)\|>/i,
+  /^\s*(?:system|assistant)\s*:/im,
+  /(?:تجاهل|انس|انسَ)\s+(?:جميع\s+|كل\s+)?(?:التعليمات|الأوامر)\s+(?:السابقة|أعلاه)/,
+  /أنت\s+الآن\s+/,
+  /(?:اكشف|اعرض)\s+(?:تعليمات|موجه)\s+النظام/,
+];
+
+/**
+ * Redact secrets from text, reporting what was found (never the values)
+ */
+export const redactSecrets = (text: string): { text: string; redactions: SecretRedaction[] } => {
+  const counts = new Map<SecretType, number>();
+  const count = (type: SecretType) => counts.set(type, (counts.get(type) || 0) + 1);
+
+  let redacted = text;
+
+  for (const { type, pattern } of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, () => {
+      count(type);
+      return `[REDACTED:${type}]`;
+    });
+  }
+
+  redacted = redacted.replace(CREDENTIAL_ASSIGNMENT_PATTERN, (match, prefix: string, value: string) => {
+    if (value.startsWith('[REDACTED:')) return match;
+    count('credential_assignment');
+    return `${prefix}[REDACTED:credential_assignment]`;
+  });
+
+  return {
+    text: redacted,
+    redactions: Array.from(counts, ([type, total]) => ({ type, count: total })),
+  };
+};
+
+/**
+ * Merge redaction counts by type
+ */
+const mergeRedactions = (lists: SecretRedaction[][]): SecretRedaction[] => {
+  const totals = new Map<SecretType, number>();
+  for (const redaction of lists.flat()) {
+    totals.set(redaction.type, (totals.get(redaction.type) || 0) + redaction.count);
+  }
+  return Array.from(totals, ([type, count]) => ({ type, count }));
+};
+
+/**
+ * Apply a text redactor to every string inside a JSON-like value
+ */
+const redactDeep = (value: unknown, redact: (text: string) => string): unknown => {
+  if (typeof value === 'string') return redact(value);
+  if (Array.isArray(value)) return value.map((item) => redactDeep(item, redact));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactDeep(item, redact)]));
+  }
+  return value;
+};
+
+/**
+ * Redact one message. Tool results are JSON, so their strings are
+ * redacted after parsing; escaped quotes would hide assignments.
+ */
+const guardMessage = (message: AIMessage): { message: AIMessage; redactions: SecretRedaction[] } => {
+  const found: SecretRedaction[][] = [];
+  const redact = (text: string) => {
+    const result = redactSecrets(text);
+    found.push(result.redactions);
+    return result.text;
+  };
+
+  let content: string;
+  if (message.role === 'tool') {
+    try {
+      content = JSON.stringify(redactDeep(JSON.parse(message.content), redact));
+    } catch {
+      content = redact(message.content);
+    }
+  } else {
+    content = redact(message.content);
+  }
+
+  const toolCalls = message.toolCalls?.map((call) => ({
+    ...call,
+    arguments: redactDeep(call.arguments, redact) as Record<string, unknown>,
+  }));
+  const redactions = mergeRedactions(found);
+
+  return {
+    message: redactions.length > 0 ? { ...message, content, ...(toolCalls ? { toolCalls } : {}) } : message,
+    redactions,
+  };
+};
+
+/**
+ * Redact secrets from every outgoing message
+ */
+export const guardOutgoingMessages = (messages: AIMessage[]): GuardedMessages => {
+  const results = messages.map(guardMessage);
+  const redactions = mergeRedactions(results.map((result) => result.redactions));
+
+  if (redactions.length > 0) {
+    console.warn('[AIGuard] Redacted secrets from outgoing messages:', redactions);
+  }
+
+  return {
+    messages: results.map((result) => result.message),
+    redactions,
+  };
+};
+
+/**
+ * Find prompt-injection phrases in untrusted content (e.g. project files)
+ */
+export const detectPromptInjection = (text: string): string[] => {
+  return INJECTION_PATTERNS
+    .map((pattern) => pattern.exec(text)?.[0].trim())
+    .filter((match): match is string => !!match);
+};
+
+/**
+ * Sanitize model output before rendering. HTML outside fenced code
+ * blocks is sanitized; fenced code is shown as code, so it is kept.
+ */
+export const sanitizeModelOutput = (text: string): string => {
+  return text
+    .split(/(```[\s\S]*?(?:```|$))/)
+    .map((part) => (part.startsWith('```') ? part : sanitizeHTML(part)))
+    .join('');
+};
+
+/**
+ * Sanitize the HTML and SVG files of a model-generated project before
+ * they are saved, previewed or downloaded
+ */
+export const sanitizeModelFiles = (files: ProjectFile[]): ProjectFile[] => {
+  return files.map((file) =>
+    file.type !== 'binary' && /\.(?:html?|svg)$/i.test(file.path)
+      ? { ...file, content: sanitizeHTML(file.content) }
+      : file
+  );
+};
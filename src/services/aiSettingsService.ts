@@ -0,0 +1,219 @@
+/**
+ * AI Settings Service
+ * ===================
+ * Persists the admin's AI configuration (provider, model, temperature,
+ * max tokens, fallback providers) and applies it with setAIConfig.
+ * Uses the Firestore document settings/ai when Firebase is configured,
+ * localStorage otherwise. API keys are never persisted here; they are
+ * kept in memory for the current session only.
+ */
+
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { z } from 'zod';
+import { db, isFirebaseConfigured } from '@/lib/firebase';
+import { setAIConfig, type AIChainEntry, type AIConfig, type AIProvider } from './aiService';
+
+export interface AISettings {
+  provider: AIProvider;
+  model?: string;
+  temperature: number;
+  maxTokens: number;
+  baseUrl?: string;
+  // Setting an Ollama server URL also enables Ollama as a fallback
+  ollamaBaseUrl?: string;
+  fallbackProviders: AIProvider[];
+  updatedAt?: string;
+}
+
+export type AISettingsSource = 'firestore' | 'local' | 'default';
+
+export interface AISettingsSaveResult {
+  success: boolean;
+  settings?: AISettings;
+  source?: AISettingsSource;
+  error?: string;
+}
+
+// localStorage key for settings when Firestore is not available
+const STORAGE_KEY = 'ntfly-ai-settings';
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'local',
+  temperature: 0.7,
+  maxTokens: 1000,
+  fallbackProviders: [],
+};
+
+const providerSchema = z.enum(['chatgpt', 'gemini', 'sonnet', 'ollama', 'local']);
+
+const aiSettingsSchema = z.object({
+  provider: providerSchema,
+  model: z.string().trim().max(100).optional(),
+  temperature: z.number().min(0, 'درجة الحرارة بين 0 و 2').max(2, 'درجة الحرارة بين 0 و 2'),
+  maxTokens: z.number().int().min(1, 'الحد الأقصى للرموز غير صالح').max(32000, 'الحد الأقصى للرموز غير صالح'),
+  baseUrl: z.string().trim().url('رابط غير صالح').optional().or(z.literal('')),
+  ollamaBaseUrl: z.string().trim().url('رابط غير صالح').optional().or(z.literal('')),
+  fallbackProviders: z.array(providerSchema).max(5),
+  updatedAt: z.string().optional(),
+});
+
+// API keys entered for this session, by provider
+const sessionKeys: Partial<Record<AIProvider, string>> = {};
+
+let currentSettings: AISettings = { ...DEFAULT_AI_SETTINGS };
+let currentSource: AISettingsSource = 'default';
+
+/**
+ * Get the Firestore document holding the settings
+ */
+const getSettingsDoc = () => doc(db, 'settings', 'ai');
+
+/**
+ * Build the AI service configuration for settings and session keys.
+ * Providers the user has a key for join the chain after the configured
+ * ones; with the local default they are tried before ollama (when
+ * enabled) and local.
+ */
+const toAIConfig = (settings: AISettings): Partial<AIConfig> => {
+  const keyed = (Object.keys(sessionKeys) as AIProvider[]).filter((provider) => provider !== 'local');
+  const ollamaEnabled = settings.provider === 'ollama'
+    || settings.fallbackProviders.includes('ollama')
+    || !!settings.ollamaBaseUrl;
+  const extras = Array.from(new Set([...settings.fallbackProviders, ...keyed, ...(ollamaEnabled ? ['ollama' as const] : [])]))
+    .filter((provider) => provider !== settings.provider);
+  const providers: AIProvider[] = settings.provider === 'local'
+    ? [...extras.filter((provider) => provider !== 'ollama'), ...(ollamaEnabled ? ['ollama' as const] : []), 'local']
+    : [settings.provider, ...extras];
+  const chain: AIChainEntry[] | undefined = extras.length > 0
+    ? providers.map((provider) => ({
+      provider,
+      apiKey: sessionKeys[provider],
+      baseUrl: provider === 'ollama' && provider !== settings.provider ? settings.ollamaBaseUrl || undefined : undefined,
+    }))
+    : undefined;
+
+  return {
+    provider: settings.provider,
+    model: settings.model || undefined,
+    temperature: settings.temperature,
+    maxTokens: settings.maxTokens,
+    baseUrl: settings.baseUrl || undefined,
+    apiKey: sessionKeys[settings.provider],
+    fallbackChain: chain,
+    ollamaEnabled,
+  };
+};
+
+/**
+ * Apply settings to the AI service
+ */
+const applySettings = (settings: AISettings, source: AISettingsSource): void => {
+  currentSettings = settings;
+  currentSource = source;
+  setAIConfig(toAIConfig(settings));
+};
+
+/**
+ * Read settings from the configured store
+ */
+const readStoredSettings = async (): Promise<{ settings: unknown; source: AISettingsSource } | null> => {
+  if (isFirebaseConfigured()) {
+    try {
+      const snapshot = await getDoc(getSettingsDoc());
+      if (snapshot.exists()) return { settings: snapshot.data(), source: 'firestore' };
+    } catch (error) {
+      console.warn('[AISettings] Firestore read failed, using local settings:', error);
+    }
+  }
+
+  const raw = localStorage.getItem(STORAGE_KEY);
+  return raw ? { settings: JSON.parse(raw), source: 'local' } : null;
+};
+
+/**
+ * Load persisted settings and apply them. Call once at startup.
+ */
+export const loadAISettings = async (): Promise<AISettings> => {
+  try {
+    const stored = await readStoredSettings();
+    const parsed = stored ? aiSettingsSchema.safeParse(stored.settings) : null;
+
+    if (parsed?.success) {
+      applySettings(parsed.data as AISettings, stored.source);
+    } else if (parsed) {
+      console.warn('[AISettings] Ignoring invalid stored settings:', parsed.error.issues);
+    }
+  } catch (error) {
+    console.error('[AISettings] Failed to load settings:', error);
+  }
+
+  return { ...currentSettings };
+};
+
+/**
+ * Validate, persist and apply settings (admin function)
+ */
+export const saveAISettings = async (settings: AISettings): Promise<AISettingsSaveResult> => {
+  const parsed = aiSettingsSchema.safeParse({ ...settings, updatedAt: new Date().toISOString() });
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.errors[0].message };
+  }
+
+  const validated = parsed.data as AISettings;
+  let source: AISettingsSource = 'local';
+
+  try {
+    if (isFirebaseConfigured()) {
+      // Firestore rejects undefined fields
+      await setDoc(getSettingsDoc(), JSON.parse(JSON.stringify(validated)));
+      source = 'firestore';
+    } else {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(validated));
+    }
+  } catch (error) {
+    console.error('[AISettings] Failed to save settings:', error);
+    return { success: false, error: 'تعذر حفظ الإعدادات' };
+  }
+
+  applySettings(validated, source);
+  if (import.meta.env.DEV) {
+    console.log('[AISettings] Settings saved:', { provider: validated.provider, source });
+  }
+
+  return { success: true, settings: validated, source };
+};
+
+/**
+ * Get the settings currently applied and where they came from
+ */
+export const getAISettings = (): { settings: AISettings; source: AISettingsSource } => ({
+  settings: { ...currentSettings },
+  source: currentSource,
+});
+
+/**
+ * Set (or clear) a provider's API key for this session only
+ */
+export const setSessionApiKey = (provider: AIProvider, apiKey: string): void => {
+  if (apiKey.trim()) {
+    sessionKeys[provider] = apiKey.trim();
+  } else {
+    delete sessionKeys[provider];
+  }
+
+  setAIConfig(toAIConfig(currentSettings));
+};
+
+/**
+ * Clear a provider's session API key only if it is still the given
+ * key, so a key entered by hand since then stays in place
+ */
+export const releaseSessionApiKey = (provider: AIProvider, apiKey: string): void => {
+  if (sessionKeys[provider] !== apiKey.trim()) return;
+  setSessionApiKey(provider, '');
+};
+
+/**
+ * Check if a provider has a session API key
+ */
+export const hasSessionApiKey = (provider: AIProvider): boolean => !!sessionKeys[provider];
@@ -0,0 +1,251 @@
+/**
+ * Chat Service
+ * ============
+ * Persists AI conversation threads per user.
+ * Uses Firestore when Firebase is configured and the user is signed in,
+ * localStorage otherwise.
+ */
+
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  setDoc,
+} from 'firebase/firestore';
+import { db, isFirebaseConfigured } from '@/lib/firebase';
+import { downloadBlob } from './downloadService';
+import type { AIMessage, AIProvider } from './aiService';
+import type { AssistantAction } from './localAssistantService';
+import type { ProjectCitation } from './retrievalService';
+
+export interface ChatMessage extends AIMessage {
+  id: string;
+  createdAt: string;
+  provider?: AIProvider;
+  error?: string;
+  citations?: ProjectCitation[];
+  // Offered by the local assistant until the user runs it
+  action?: AssistantAction;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ConversationExportFormat = 'markdown' | 'json';
+
+// Title used until the first user message arrives
+export const DEFAULT_CONVERSATION_TITLE = 'محادثة جديدة';
+
+// Maximum characters taken from the first message for the title
+const MAX_TITLE_LENGTH = 40;
+
+// localStorage key prefix for conversations
+const STORAGE_KEY_PREFIX = 'ntfly-conversations';
+
+/**
+ * Generate unique ID
+ */
+const generateId = (prefix: string): string => {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+/**
+ * Check if conversations for this user should go to Firestore
+ */
+const isFirestoreBacked = (userId: string): boolean => {
+  return isFirebaseConfigured() && userId !== 'guest';
+};
+
+/**
+ * Get the localStorage key for a user
+ */
+const getStorageKey = (userId: string): string => `${STORAGE_KEY_PREFIX}:${userId}`;
+
+/**
+ * Read all locally stored conversations for a user
+ */
+const readLocalConversations = (userId: string): Conversation[] => {
+  try {
+    const raw = localStorage.getItem(getStorageKey(userId));
+    return raw ? (JSON.parse(raw) as Conversation[]) : [];
+  } catch (error) {
+    console.error('[ChatService] Failed to read local conversations:', error);
+    return [];
+  }
+};
+
+/**
+ * Write all conversations for a user to localStorage
+ */
+const writeLocalConversations = (userId: string, conversations: Conversation[]): void => {
+  localStorage.setItem(getStorageKey(userId), JSON.stringify(conversations));
+};
+
+/**
+ * Get the Firestore collection holding a user's conversations
+ */
+const getConversationsCollection = (userId: string) => {
+  return collection(db, 'users', userId, 'conversations');
+};
+
+/**
+ * Sort conversations by most recently updated
+ */
+const sortByUpdated = (conversations: Conversation[]): Conversation[] => {
+  return [...conversations].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/**
+ * Create a new, unsaved conversation
+ */
+export const createConversation = (): Conversation => {
+  const now = new Date().toISOString();
+  
+  return {
+    id: generateId('conv'),
+    title: DEFAULT_CONVERSATION_TITLE,
+    messages: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Create a chat message
+ */
+export const createChatMessage = (
+  role: ChatMessage['role'],
+  content: string,
+  extra: Partial<Pick<ChatMessage, 'provider' | 'error'>> = {}
+): ChatMessage => ({
+  id: generateId('msg'),
+  role,
+  content,
+  createdAt: new Date().toISOString(),
+  ...extra,
+});
+
+/**
+ * Derive a conversation title from its first user message
+ */
+export const deriveConversationTitle = (conversation: Conversation): string => {
+  if (conversation.title !== DEFAULT_CONVERSATION_TITLE) {
+    return conversation.title;
+  }
+  
+  const firstUserMessage = conversation.messages.find((message) => message.role === 'user');
+  if (!firstUserMessage) return conversation.title;
+  
+  const text = firstUserMessage.content.replace(/\s+/g, ' ').trim();
+  return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH)}…` : text;
+};
+
+/**
+ * List a user's conversations, most recent first
+ */
+export const listConversations = async (userId: string): Promise<Conversation[]> => {
+  if (!isFirestoreBacked(userId)) {
+    return sortByUpdated(readLocalConversations(userId));
+  }
+  
+  const snapshot = await getDocs(getConversationsCollection(userId));
+  return sortByUpdated(snapshot.docs.map((entry) => entry.data() as Conversation));
+};
+
+/**
+ * Save (create or update) a conversation
+ */
+export const saveConversation = async (
+  userId: string,
+  conversation: Conversation
+): Promise<Conversation> => {
+  const saved: Conversation = {
+    ...conversation,
+    title: deriveConversationTitle(conversation),
+    updatedAt: new Date().toISOString(),
+  };
+  
+  if (!isFirestoreBacked(userId)) {
+    const others = readLocalConversations(userId).filter((entry) => entry.id !== saved.id);
+    writeLocalConversations(userId, [saved, ...others]);
+    return saved;
+  }
+  
+  // Firestore rejects undefined fields (e.g. a message without citations)
+  const data = JSON.parse(JSON.stringify(saved)) as Conversation;
+  await setDoc(doc(getConversationsCollection(userId), saved.id), data);
+  return saved;
+};
+
+/**
+ * Rename a conversation
+ */
+export const renameConversation = async (
+  userId: string,
+  conversation: Conversation,
+  title: string
+): Promise<Conversation> => {
+  const trimmed = title.trim();
+  return saveConversation(userId, {
+    ...conversation,
+    title: trimmed || DEFAULT_CONVERSATION_TITLE,
+  });
+};
+
+/**
+ * Delete a conversation
+ */
+export const deleteConversation = async (userId: string, conversationId: string): Promise<void> => {
+  if (!isFirestoreBacked(userId)) {
+    writeLocalConversations(
+      userId,
+      readLocalConversations(userId).filter((entry) => entry.id !== conversationId)
+    );
+    return;
+  }
+  
+  await deleteDoc(doc(getConversationsCollection(userId), conversationId));
+};
+
+/**
+ * Serialize a conversation to Markdown
+ */
+export const conversationToMarkdown = (conversation: Conversation): string => {
+  const roleLabels: Record<ChatMessage['role'], string> = {
+    user: 'المستخدم',
+    assistant: 'المساعد',
+    system: 'النظام',
+    tool: 'أداة',
+  };
+  
+  const body = conversation.messages
+    .map((message) => `### ${roleLabels[message.role]}\n\n${message.content}`)
+    .join('\n\n');
+  
+  return `# ${conversation.title}\n\n${body}\n`;
+};
+
+/**
+ * Download a conversation as Markdown or JSON
+ */
+export const exportConversation = (
+  conversation: Conversation,
+  format: ConversationExportFormat = 'markdown'
+): void => {
+  const baseName = conversation.title.replace(/[\\/:*?"<>|\s]+/g, '-').toLowerCase() || 'conversation';
+  
+  if (format === 'json') {
+    const blob = new Blob([JSON.stringify(conversation, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `${baseName}.json`);
+    return;
+  }
+  
+  const blob = new Blob([conversationToMarkdown(conversation)], { type: 'text/markdown' });
+  downloadBlob(blob, `${baseName}.md`);
+};
@@ -0,0 +1,219 @@
+/**
+ * Code Generation Service
+ * =======================
+ * Asks the AI provider for a multi-file project and turns the reply
+ * into ProjectFile[] ready for download or saving.
+ */
+
+import { sanitizeModelFiles } from './aiGuardService';
+import { sendMessage, sendUserMessage, type AIResponse } from './aiService';
+import { downloadProjectAsZip, type DownloadResult, type ProjectFile } from './downloadService';
+import { createProject, type ProjectSaveResult } from './projectService';
+import { renderPrompt } from './promptService';
+import { validateProjectPath } from './securityService';
+import { extractJson } from './structuredOutputService';
+
+export interface RejectedFile {
+  path: string;
+  errors: string[];
+}
+
+export interface GeneratedProject {
+  success: boolean;
+  files: ProjectFile[];
+  rejected: RejectedFile[];
+  response: AIResponse;
+  error?: string;
+}
+
+export interface GenerateProjectOptions {
+  language?: string;
+  userId?: string;
+}
+
+// Maximum number of files accepted from a single generation
+const MAX_GENERATED_FILES = 50;
+
+// Matches a path-like token such as src/App.tsx or index.html
+const PATH_PATTERN = /^[\w@.-]+(?:\/[\w@.-]+)*\.\w+$/;
+
+/**
+ * Read files from a parsed JSON manifest ({ files: [...] } or [...])
+ */
+const readManifest = (manifest: unknown): ProjectFile[] | null => {
+  const entries = Array.isArray(manifest)
+    ? manifest
+    : (manifest as { files?: unknown })?.files;
+
+  if (!Array.isArray(entries)) return null;
+
+  return entries
+    .filter((entry) => typeof entry?.path === 'string' && typeof entry?.content === 'string')
+    .map((entry) => ({ path: entry.path.trim(), content: entry.content, type: 'text' as const }));
+};
+
+/**
+ * Try to parse the reply (raw, fenced or embedded JSON) as a manifest
+ */
+const parseJsonManifest = (text: string): ProjectFile[] | null => {
+  const { value } = extractJson(text);
+  const files = value === undefined ? null : readManifest(value);
+  return files && files.length > 0 ? files : null;
+};
+
+/**
+ * Find a file path for a fenced block, from its info string or the
+ * line right before it (e.g. "### src/App.tsx" or "**index.html**")
+ */
+const findBlockPath = (info: string, preceding: string): string | null => {
+  for (const token of info.trim().split(/\s+/).slice(1)) {
+    const value = token.replace(/^(?:title|file|path)=/, '').replace(/^["']|["']$/g, '');
+    if (PATH_PATTERN.test(value)) return value;
+  }
+
+  const lastLine = preceding.trimEnd().split('\n').pop() || '';
+  const cleaned = lastLine
+    .replace(/^[#>*\-\s]+/, '')
+    .replace(/^(?:file|path|الملف)\s*:\s*/i, '')
+    .replace(/[*`:\s]+$/g, '')
+    .replace(/^[*`]+/, '');
+
+  return PATH_PATTERN.test(cleaned) ? cleaned : null;
+};
+
+/**
+ * Parse fenced code blocks that are labelled with a file path
+ */
+const parseFencedBlocks = (text: string): ProjectFile[] => {
+  const files = new Map<string, ProjectFile>();
+  const pattern = /```([^\n]*)\n([\s\S]*?)```/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const preceding = text.slice(lastIndex, match.index);
+    const path = findBlockPath(match[1], preceding);
+
+    if (path) {
+      files.set(path, { path, content: match[2], type: 'text' });
+    }
+
+    lastIndex = pattern.lastIndex;
+  }
+
+  return Array.from(files.values());
+};
+
+/**
+ * Parse a model reply into project files (JSON manifest or fenced blocks)
+ */
+export const parseProjectFiles = (text: string): ProjectFile[] => {
+  return parseJsonManifest(text) ?? parseFencedBlocks(text);
+};
+
+/**
+ * Split files into accepted and rejected by path validation
+ */
+export const validateProjectFiles = (
+  files: ProjectFile[]
+): { files: ProjectFile[]; rejected: RejectedFile[] } => {
+  const accepted: ProjectFile[] = [];
+  const rejected: RejectedFile[] = [];
+
+  for (const file of files) {
+    const result = validateProjectPath(file.path);
+
+    if (!result.valid) {
+      rejected.push({ path: file.path, errors: result.errors });
+    } else if (accepted.length >= MAX_GENERATED_FILES) {
+      rejected.push({ path: file.path, errors: ['تم تجاوز الحد الأقصى لعدد الملفات'] });
+    } else {
+      accepted.push(file);
+    }
+  }
+
+  return { files: accepted, rejected };
+};
+
+/**
+ * Generate a multi-file project from a description
+ */
+export const generateProject = async (
+  description: string,
+  options: GenerateProjectOptions = {}
+): Promise<GeneratedProject> => {
+  // Prompt template "project.generate", editable by admins
+  const prompt = renderPrompt('project.generate', { description, language: options.language || 'typescript' });
+
+  if (!prompt.success) {
+    return {
+      success: false,
+      files: [],
+      rejected: [],
+      response: { success: false, message: '', provider: 'local', error: prompt.error },
+      error: prompt.error,
+    };
+  }
+
+  const sendOptions = { provider: prompt.template.provider, model: prompt.template.model };
+  const response = options.userId
+    ? await sendUserMessage(options.userId, prompt.messages, sendOptions)
+    : await sendMessage(prompt.messages, sendOptions);
+
+  if (!response.success || response.provider === 'local') {
+    return {
+      success: false,
+      files: [],
+      rejected: [],
+      response,
+      error: response.error || 'توليد المشاريع يتطلب مزود ذكاء اصطناعي خارجي',
+    };
+  }
+
+  // Generated HTML is model output: sanitize it before it is saved or exported
+  const { files, rejected } = validateProjectFiles(sanitizeModelFiles(parseProjectFiles(response.message)));
+
+  return {
+    success: files.length > 0,
+    files,
+    rejected,
+    response,
+    error: files.length > 0 ? undefined : 'لم يتم العثور على ملفات في الرد',
+  };
+};
+
+/**
+ * Generate a project and download it as a ZIP
+ */
+export const generateProjectZip = async (
+  projectName: string,
+  description: string,
+  options: GenerateProjectOptions = {}
+): Promise<DownloadResult & { rejected: RejectedFile[] }> => {
+  const generated = await generateProject(description, options);
+
+  if (!generated.success) {
+    return { success: false, error: generated.error, rejected: generated.rejected };
+  }
+
+  const result = await downloadProjectAsZip(projectName, generated.files);
+  return { ...result, rejected: generated.rejected };
+};
+
+/**
+ * Generate a project and save it to the user's project store
+ */
+export const generateAndSaveProject = async (
+  userId: string,
+  projectName: string,
+  description: string,
+  options: Omit<GenerateProjectOptions, 'userId'> = {}
+): Promise<ProjectSaveResult & { rejected: RejectedFile[] }> => {
+  const generated = await generateProject(description, { ...options, userId });
+
+  if (!generated.success) {
+    return { success: false, error: generated.error, rejected: generated.rejected };
+  }
+
+  return { ...createProject(userId, projectName, generated.files), rejected: generated.rejected };
+};
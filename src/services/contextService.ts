@@ -0,0 +1,170 @@
+/**
+ * Context Service
+ * ===============
+ * Keeps conversation history within a model's context window.
+ * Drops the oldest turns first and can compress them into a summary.
+ */
+
+import type { AIMessage } from './aiService';
+import { estimateMessagesTokens } from './usageService';
+
+export interface ContextFitOptions {
+  budgetTokens: number;
+  summarize?: (olderTurns: AIMessage[]) => Promise<string | null>;
+}
+
+export interface ContextFitResult {
+  messages: AIMessage[];
+  trimmedMessages: number;
+  summarized: boolean;
+}
+
+// Context window sizes in tokens. Longer keys win on prefix matches.
+const MODEL_CONTEXT_LIMITS: Record<string, number> = {
+  'gpt-4o-mini': 128000,
+  'gpt-4o': 128000,
+  'gpt-4.1': 1000000,
+  'claude-3-5-haiku': 200000,
+  'claude-3-5-sonnet': 200000,
+  'claude-3-7-sonnet': 200000,
+  'gemini-1.5-flash': 1000000,
+  'gemini-1.5-pro': 2000000,
+  'gemini-2.0-flash': 1000000,
+};
+
+// Used for models missing from the table
+const DEFAULT_CONTEXT_LIMIT = 8192;
+
+// Prefix for the synthetic system note holding the summary
+const SUMMARY_PREFIX = 'Summary of the earlier conversation:';
+
+// Room set aside for the summary note, at most a quarter of the budget
+const SUMMARY_RESERVE_TOKENS = 500;
+
+/**
+ * Get the context window size for a model
+ */
+export const getModelContextLimit = (model: string): number => {
+  if (MODEL_CONTEXT_LIMITS[model]) return MODEL_CONTEXT_LIMITS[model];
+  
+  const prefix = Object.keys(MODEL_CONTEXT_LIMITS)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  
+  return prefix ? MODEL_CONTEXT_LIMITS[prefix] : DEFAULT_CONTEXT_LIMIT;
+};
+
+/**
+ * Get the prompt budget for a model, leaving room for the reply
+ */
+export const getContextBudget = (model: string, maxReplyTokens: number = 1000): number => {
+  return Math.max(0, getModelContextLimit(model) - maxReplyTokens);
+};
+
+/**
+ * Build the synthetic system note carrying a summary of older turns
+ */
+export const createSummaryNote = (summary: string): AIMessage => ({
+  role: 'system',
+  content: `${SUMMARY_PREFIX}\n${summary}`,
+});
+
+/**
+ * Build the summary note, shortening the summary to fit the reserved tokens
+ */
+const fitSummaryNote = (summary: string, maxTokens: number): AIMessage => {
+  let text = summary;
+  let note = createSummaryNote(text);
+  
+  while (text.length > 0 && estimateMessagesTokens([note]) > maxTokens) {
+    const ratio = maxTokens / estimateMessagesTokens([note]);
+    text = text.slice(0, Math.min(text.length - 1, Math.floor(text.length * ratio)));
+    note = createSummaryNote(text.length < summary.length ? `${text.trimEnd()}…` : text);
+  }
+  
+  return note;
+};
+
+/**
+ * Build the prompt used to summarise older turns
+ */
+export const buildSummaryPrompt = (olderTurns: AIMessage[]): AIMessage[] => [
+  {
+    role: 'system',
+    content: 'Summarise the conversation below in a few short paragraphs. Keep facts, decisions, names, file paths and open questions. Reply in the language of the conversation.',
+  },
+  {
+    role: 'user',
+    content: olderTurns.map((turn) => `${turn.role}: ${turn.content}`).join('\n\n'),
+  },
+];
+
+/**
+ * Fit messages within a token budget. System prompts and the most recent
+ * turns are kept; older turns are dropped or, with a summarizer, replaced
+ * by a synthetic system note. The last message is always kept.
+ */
+export const fitMessagesToBudget = async (
+  messages: AIMessage[],
+  options: ContextFitOptions
+): Promise<ContextFitResult> => {
+  if (estimateMessagesTokens(messages) <= options.budgetTokens) {
+    return { messages, trimmedMessages: 0, summarized: false };
+  }
+  
+  const systemMessages = messages.filter((message) => message.role === 'system');
+  const turns = messages.filter((message) => message.role !== 'system');
+  
+  // Walk back from the newest turn, keeping turns while they fit
+  const keepRecent = (budget: number): AIMessage[] => {
+    const kept: AIMessage[] = [];
+    let used = 0;
+    
+    for (let i = turns.length - 1; i >= 0; i--) {
+      const cost = estimateMessagesTokens([turns[i]]);
+      if (kept.length > 0 && used + cost > budget) break;
+      kept.unshift(turns[i]);
+      used += cost;
+    }
+    
+    // The window must open with a user turn: tool results are meaningless
+    // without their call, and providers reject a leading assistant turn
+    while (kept.length > 1 && kept[0].role !== 'user') {
+      kept.shift();
+    }
+    
+    return kept;
+  };
+  
+  const turnBudget = options.budgetTokens - estimateMessagesTokens(systemMessages);
+  
+  if (options.summarize) {
+    // Reserve room for the note up front, so every dropped turn is summarised
+    const reserve = Math.min(SUMMARY_RESERVE_TOKENS, Math.floor(turnBudget / 4));
+    const kept = keepRecent(turnBudget - reserve);
+    const dropped = turns.slice(0, turns.length - kept.length);
+    
+    const summary = dropped.length > 0
+      ? await options.summarize(dropped).catch((error) => {
+        console.warn('[ContextService] Summarisation failed, dropping older turns:', error);
+        return null;
+      })
+      : null;
+    
+    if (summary) {
+      return {
+        messages: [...systemMessages, fitSummaryNote(summary, reserve), ...kept],
+        trimmedMessages: dropped.length,
+        summarized: true,
+      };
+    }
+  }
+  
+  const kept = keepRecent(turnBudget);
+  
+  return {
+    messages: [...systemMessages, ...kept],
+    trimmedMessages: turns.length - kept.length,
+    summarized: false,
+  };
+};
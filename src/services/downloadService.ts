@@ -1,17 +1,23 @@
 /**
  * Download Service
  * ================
- * Handles project downloads as ZIP files.
+ * Handles project downloads as ZIP or tar.gz archives, or as a single
+ * self-contained HTML file.
  */
 
 import JSZip from 'jszip';
+import { base64ToBytes } from '@/lib/base64';
+import { createSingleFileHtml } from './htmlBundleService';
 
 export interface ProjectFile {
   path: string;
+  // UTF-8 text, or base64-encoded bytes when type is 'binary'
   content: string;
   type?: 'text' | 'binary';
 }
 
+export type ExportFormat = 'zip' | 'tar.gz' | 'html';
+
 export interface DownloadResult {
   success: boolean;
   filename?: string;
@@ -27,9 +33,9 @@ export const createProjectZip = async (
 ): Promise<Blob> => {
   const zip = new JSZip();
   
-  // Add each file to the zip
+  // Add each file to the zip; binary files are stored as base64
   for (const file of files) {
-    zip.file(file.path, file.content);
+    zip.file(file.path, file.content, { base64: file.type === 'binary' });
   }
   
   // Generate the zip file
@@ -40,6 +46,112 @@ export const createProjectZip = async (
   });
 };
 
+// ustar header layout: [offset, length] of each field
+const TAR_BLOCK_SIZE = 512;
+const TAR_FIELDS = {
+  name: [0, 100],
+  mode: [100, 8],
+  uid: [108, 8],
+  gid: [116, 8],
+  size: [124, 12],
+  mtime: [136, 12],
+  checksum: [148, 8],
+  typeflag: [156, 1],
+  magic: [257, 6],
+  version: [263, 2],
+  prefix: [345, 155],
+} as const;
+
+/**
+ * Get a file's bytes, decoding base64 for binary files
+ */
+const getFileBytes = (file: ProjectFile): Uint8Array => {
+  return file.type === 'binary' ? base64ToBytes(file.content) : new TextEncoder().encode(file.content);
+};
+
+/**
+ * Build a ustar header block for a regular file
+ */
+const createTarHeader = (path: string, size: number, mtime: number): Uint8Array => {
+  const encoder = new TextEncoder();
+  const header = new Uint8Array(TAR_BLOCK_SIZE);
+  const write = (field: keyof typeof TAR_FIELDS, value: string | Uint8Array) => {
+    const [offset, length] = TAR_FIELDS[field];
+    header.set((typeof value === 'string' ? encoder.encode(value) : value).subarray(0, length), offset);
+  };
+  const octal = (value: number, length: number) => value.toString(8).padStart(length - 1, '0') + '\0';
+
+  // Names over 100 bytes are split at a "/" into prefix and name
+  let name = encoder.encode(path);
+  let prefix = new Uint8Array(0);
+  if (name.length > 100) {
+    const slash = path.lastIndexOf('/');
+    const candidatePrefix = encoder.encode(path.slice(0, slash));
+    const candidateName = encoder.encode(path.slice(slash + 1));
+    if (slash === -1 || candidatePrefix.length > 155 || candidateName.length > 100) {
+      throw new Error(`مسار الملف طويل جداً لأرشيف tar: ${path}`);
+    }
+    prefix = candidatePrefix;
+    name = candidateName;
+  }
+
+  write('name', name);
+  write('mode', octal(0o644, 8));
+  write('uid', octal(0, 8));
+  write('gid', octal(0, 8));
+  write('size', octal(size, 12));
+  write('mtime', octal(mtime, 12));
+  write('typeflag', '0');
+  write('magic', 'ustar\0');
+  write('version', '00');
+  write('prefix', prefix);
+
+  // The checksum is computed with its own field filled with spaces
+  write('checksum', '        ');
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  write('checksum', checksum.toString(8).padStart(6, '0') + '\0 ');
+
+  return header;
+};
+
+/**
+ * Create an uncompressed tar archive from project files
+ */
+export const createProjectTar = (files: ProjectFile[]): Uint8Array => {
+  const mtime = Math.floor(Date.now() / 1000);
+  const blocks: Uint8Array[] = [];
+  let total = 0;
+
+  for (const file of files) {
+    const bytes = getFileBytes(file);
+    const padded = new Uint8Array(Math.ceil(bytes.length / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE);
+    padded.set(bytes);
+    blocks.push(createTarHeader(file.path, bytes.length, mtime), padded);
+    total += TAR_BLOCK_SIZE + padded.length;
+  }
+
+  // Two zero blocks mark the end of the archive
+  const tar = new Uint8Array(total + TAR_BLOCK_SIZE * 2);
+  let offset = 0;
+  for (const block of blocks) {
+    tar.set(block, offset);
+    offset += block.length;
+  }
+  return tar;
+};
+
+/**
+ * Create a gzip-compressed tar archive from project files
+ */
+export const createProjectTarGz = async (files: ProjectFile[]): Promise<Blob> => {
+  if (typeof CompressionStream === 'undefined') {
+    throw new Error('المتصفح لا يدعم ضغط gzip');
+  }
+
+  const stream = new Blob([createProjectTar(files)]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Response(stream).blob();
+};
+
 /**
  * Download a blob as a file
  */
@@ -80,134 +192,38 @@ export const downloadProjectAsZip = async (
 };
 
 /**
- * Create demo project files
+ * Download project in the chosen format
  */
-export const createDemoProjectFiles = (projectName: string): ProjectFile[] => {
-  const sanitizedName = projectName.replace(/\s+/g, '-').toLowerCase();
-  
-  return [
-    {
-      path: 'index.html',
-      content: `<!DOCTYPE html>
-<html lang="ar" dir="rtl">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${projectName}</title>
-    <link rel="stylesheet" href="styles.css">
-</head>
-<body>
-    <header>
-        <nav>
-            <h1>${projectName}</h1>
-        </nav>
-    </header>
-    <main>
-        <section class="hero">
-            <h2>مرحباً بك في ${projectName}</h2>
-            <p>تم إنشاء هذا المشروع بواسطة NTFLY Studio</p>
-        </section>
-    </main>
-    <footer>
-        <p>© ${new Date().getFullYear()} ${projectName}. جميع الحقوق محفوظة.</p>
-    </footer>
-    <script src="script.js"></script>
-</body>
-</html>`,
-    },
-    {
-      path: 'styles.css',
-      content: `* {
-    margin: 0;
-    padding: 0;
-    box-sizing: border-box;
-}
-
-body {
-    font-family: 'Cairo', 'Segoe UI', sans-serif;
-    line-height: 1.6;
-    color: #333;
-}
-
-header {
-    background: linear-gradient(135deg, #3b82f6, #8b5cf6);
-    color: white;
-    padding: 1rem;
-}
-
-nav h1 {
-    font-size: 1.5rem;
-}
-
-.hero {
-    min-height: 60vh;
-    display: flex;
-    flex-direction: column;
-    justify-content: center;
-    align-items: center;
-    text-align: center;
-    padding: 2rem;
-    background: #f8fafc;
-}
-
-.hero h2 {
-    font-size: 2.5rem;
-    margin-bottom: 1rem;
-    color: #1e293b;
-}
-
-.hero p {
-    font-size: 1.25rem;
-    color: #64748b;
-}
+export const downloadProject = async (
+  projectName: string,
+  files: ProjectFile[],
+  format: ExportFormat = 'zip'
+): Promise<DownloadResult> => {
+  if (format === 'zip') {
+    return downloadProjectAsZip(projectName, files);
+  }
 
-footer {
-    background: #1e293b;
-    color: white;
-    text-align: center;
-    padding: 1rem;
-}`,
-    },
-    {
-      path: 'script.js',
-      content: `// ${projectName} JavaScript
-console.log('${projectName} loaded successfully!');
-
-document.addEventListener('DOMContentLoaded', function() {
-    console.log('DOM ready');
-});`,
-    },
-    {
-      path: 'README.md',
-      content: `# ${projectName}
-
-تم إنشاء هذا المشروع بواسطة **NTFLY Studio**.
-
-## البدء
-
-1. افتح \`index.html\` في المتصفح
-2. عدّل الملفات حسب الحاجة
-
-## الملفات
-
-- \`index.html\` - الصفحة الرئيسية
-- \`styles.css\` - أنماط CSS
-- \`script.js\` - JavaScript
-
-## الترخيص
-
-جميع الحقوق محفوظة © ${new Date().getFullYear()}
-`,
-    },
-  ];
-};
+  const baseName = projectName.replace(/\s+/g, '-').toLowerCase();
 
-/**
- * Download demo project
- */
-export const downloadDemoProject = async (
-  projectName: string = 'my-project'
-): Promise<DownloadResult> => {
-  const files = createDemoProjectFiles(projectName);
-  return downloadProjectAsZip(projectName, files);
+  try {
+    if (format === 'html') {
+      const bundle = createSingleFileHtml(files);
+      if (!bundle.success) {
+        return { success: false, error: bundle.error };
+      }
+      const filename = `${baseName}.html`;
+      downloadBlob(new Blob([bundle.html], { type: 'text/html;charset=utf-8' }), filename);
+      return { success: true, filename };
+    }
+
+    const filename = `${baseName}.tar.gz`;
+    downloadBlob(await createProjectTarGz(files), filename);
+    return { success: true, filename };
+  } catch (error) {
+    console.error('[Download] Failed to export project:', format, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'فشل في تصدير المشروع',
+    };
+  }
 };
@@ -0,0 +1,180 @@
+/**
+ * HTML Bundle Service
+ * ===================
+ * Turns a static project into one self-contained HTML file for sharing
+ * demos: stylesheets and scripts are inlined, and images, icons and
+ * fonts become data URIs. Only the entry page is bundled; links to
+ * other pages are left as they are. Inline scripts cannot be deferred,
+ * so defer and async scripts are moved to the end of <body> instead.
+ */
+
+import { bytesToBase64 } from '@/lib/base64';
+import type { ProjectFile } from './downloadService';
+
+export interface HtmlBundleResult {
+  success: boolean;
+  html?: string;
+  // Local references that point to files missing from the project
+  missing?: string[];
+  error?: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.svg': 'image/svg+xml',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.eot': 'application/vnd.ms-fontobject',
+  '.pdf': 'application/pdf',
+  '.css': 'text/css',
+  '.js': 'text/javascript',
+  '.json': 'application/json',
+};
+
+const LINK_TAG_PATTERN = /<link\b[^>]*>/gi;
+const SCRIPT_TAG_PATTERN = /<script\b([^>]*)>\s*<\/script\s*>/gi;
+const MEDIA_TAG_PATTERN = /<(?:img|source|video|audio)\b[^>]*>/gi;
+const CSS_URL_PATTERN = /url\(\s*(['"]?)([^'")]+)\1\s*\)/gi;
+// The last closing </body> tag
+const BODY_END_PATTERN = /<\/body\s*>(?![\s\S]*<\/body\s*>)/i;
+// References that are not project files
+const EXTERNAL_REF_PATTERN = /^(?:[a-z][a-z\d+.-]*:|\/\/|#)/i;
+
+/**
+ * Read an attribute from a tag, or null when absent
+ */
+const getAttribute = (tag: string, name: string): string | null => {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(tag);
+  return match ? match[1] ?? match[2] ?? match[3] : null;
+};
+
+/**
+ * Check whether a tag has a boolean attribute such as defer
+ */
+const hasAttribute = (tag: string, name: string): boolean => {
+  const withoutValues = tag.replace(/"[^"]*"|'[^']*'/g, '""');
+  return new RegExp(`\\s${name}(?=[\\s=/>]|$)`, 'i').test(withoutValues);
+};
+
+/**
+ * Replace an attribute's value in a tag
+ */
+const setAttribute = (tag: string, name: string, value: string): string => {
+  return tag.replace(
+    new RegExp(`(\\s${name}\\s*=\\s*)(?:"[^"]*"|'[^']*'|[^\\s>]+)`, 'i'),
+    (_match, prefix: string) => `${prefix}"${value}"`
+  );
+};
+
+/**
+ * Resolve a reference relative to the file it appears in
+ */
+const resolveReference = (fromPath: string, reference: string): string => {
+  const cleanRef = reference.split(/[?#]/)[0];
+  const segments = cleanRef.startsWith('/') ? [] : fromPath.split('/').slice(0, -1);
+
+  for (const segment of cleanRef.split('/')) {
+    if (segment === '..') segments.pop();
+    else if (segment && segment !== '.') segments.push(segment);
+  }
+  return segments.join('/');
+};
+
+/**
+ * Bundle the project's entry page (index.html, else the first HTML file)
+ */
+export const createSingleFileHtml = (files: ProjectFile[]): HtmlBundleResult => {
+  const byPath = new Map(files.map((file) => [file.path, file]));
+  const entry = byPath.get('index.html') || files.find((file) => /\.html?$/i.test(file.path));
+
+  if (!entry) {
+    return { success: false, error: 'لا يوجد ملف HTML في المشروع' };
+  }
+
+  const missing = new Set<string>();
+
+  const findFile = (fromPath: string, reference: string): ProjectFile | null => {
+    if (!reference || EXTERNAL_REF_PATTERN.test(reference)) return null;
+    let path: string;
+    try {
+      path = resolveReference(fromPath, decodeURI(reference));
+    } catch {
+      path = resolveReference(fromPath, reference);
+    }
+    const file = byPath.get(path);
+    if (!file) missing.add(reference);
+    return file || null;
+  };
+
+  const toDataUri = (file: ProjectFile): string => {
+    const ext = file.path.toLowerCase().slice(file.path.lastIndexOf('.'));
+    const base64 = file.type === 'binary' ? file.content : bytesToBase64(new TextEncoder().encode(file.content));
+    return `data:${MIME_TYPES[ext] || 'application/octet-stream'};base64,${base64}`;
+  };
+
+  // Inline url(...) references of a stylesheet
+  const inlineCssUrls = (css: string, fromPath: string): string => {
+    return css.replace(CSS_URL_PATTERN, (match, _quote: string, reference: string) => {
+      const file = findFile(fromPath, reference.trim());
+      return file ? `url("${toDataUri(file)}")` : match;
+    });
+  };
+
+  // Deferred scripts, in document order, for the end of <body>
+  const deferred: string[] = [];
+
+  const html = entry.content
+    .replace(LINK_TAG_PATTERN, (tag) => {
+      const file = findFile(entry.path, getAttribute(tag, 'href'));
+      if (!file) return tag;
+
+      const rel = (getAttribute(tag, 'rel') || '').toLowerCase().split(/\s+/);
+      if (rel.includes('stylesheet') && file.type !== 'binary') {
+        const css = inlineCssUrls(file.content, file.path).replace(/<\/style/gi, '<\\/style');
+        const media = getAttribute(tag, 'media');
+        return `<style${media ? ` media="${media}"` : ''}>\n${css}\n</style>`;
+      }
+      return setAttribute(tag, 'href', toDataUri(file));
+    })
+    .replace(SCRIPT_TAG_PATTERN, (tag, attributes: string) => {
+      const file = findFile(entry.path, getAttribute(tag, 'src'));
+      if (!file) return tag;
+
+      const code = file.content.replace(/<\/script/gi, '<\\/script');
+      // Inline module scripts are deferred already and honour async
+      if ((getAttribute(tag, 'type') || '').toLowerCase() === 'module') {
+        const rest = attributes.replace(/\ssrc\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+)/gi, '');
+        return `<script${rest}>\n${code}\n</script>`;
+      }
+
+      const rest = attributes.replace(/\s(?:src|defer|async)(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?/gi, '');
+      const script = `<script${rest}>\n${code}\n</script>`;
+      if (hasAttribute(tag, 'defer') || hasAttribute(tag, 'async')) {
+        deferred.push(script);
+        return '';
+      }
+      return script;
+    })
+    .replace(MEDIA_TAG_PATTERN, (tag) => {
+      const file = findFile(entry.path, getAttribute(tag, 'src'));
+      return file ? setAttribute(tag, 'src', toDataUri(file)) : tag;
+    });
+
+  const bundled = deferred.length === 0
+    ? html
+    : BODY_END_PATTERN.test(html)
+      ? html.replace(BODY_END_PATTERN, (bodyEnd) => `${deferred.join('\n')}\n${bodyEnd}`)
+      : `${html}\n${deferred.join('\n')}`;
+
+  if (import.meta.env.DEV && missing.size > 0) {
+    console.warn('[Bundle] Missing referenced files:', Array.from(missing));
+  }
+
+  return { success: true, html: bundled, missing: Array.from(missing) };
+};
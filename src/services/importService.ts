@@ -0,0 +1,170 @@
+/**
+ * Import Service
+ * ==============
+ * Imports existing projects from user-uploaded ZIP archives. Every
+ * entry is validated before it is extracted (paths, symlinks, sizes,
+ * compression ratio) and extraction is capped, so a malicious archive
+ * is rejected without being unpacked. Rejected files are reported per
+ * file so the user can review them before the project is saved.
+ */
+
+import JSZip from 'jszip';
+import { bytesToBase64 } from '@/lib/base64';
+import type { ProjectFile } from './downloadService';
+import { createProject, type ProjectSaveResult } from './projectService';
+import {
+  getMaxFileSize,
+  isBinaryFile,
+  validateArchive,
+  validateArchiveEntry,
+  type ArchiveEntryInfo,
+} from './securityService';
+
+export interface ImportRejection {
+  path: string;
+  errors: string[];
+}
+
+export interface ArchiveReadResult {
+  success: boolean;
+  files: ProjectFile[];
+  rejected: ImportRejection[];
+  // Suggested project name, from the archive file name
+  name: string;
+  error?: string;
+}
+
+// Entries created by operating systems, skipped silently
+const IGNORED_ENTRY_PATTERN = /(?:^|\/)(?:__MACOSX\/|\.DS_Store$|Thumbs\.db$|desktop\.ini$)/i;
+
+// JSZip keeps the sizes declared in the archive on a private field
+type ZipEntryWithSizes = JSZip.JSZipObject & {
+  _data?: { compressedSize?: number; uncompressedSize?: number };
+  // Documented JSZip API that is missing from its type definitions
+  internalStream(type: 'uint8array'): JSZip.JSZipStreamHelper<Uint8Array>;
+};
+
+/**
+ * Describe an archive entry for validation
+ */
+const toEntryInfo = (entry: ZipEntryWithSizes): ArchiveEntryInfo => ({
+  // JSZip strips "../" from `name`; validate what the archive really says
+  path: entry.unsafeOriginalName ?? entry.name,
+  size: entry._data?.uncompressedSize ?? 0,
+  compressedSize: entry._data?.compressedSize ?? 0,
+  unixPermissions: typeof entry.unixPermissions === 'number' ? entry.unixPermissions : null,
+});
+
+/**
+ * Extract an entry, stopping as soon as it grows past maxBytes. The
+ * declared size can lie, so it is not trusted during extraction.
+ */
+const readEntryBytes = (entry: ZipEntryWithSizes, maxBytes: number): Promise<Uint8Array> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    const stream = entry.internalStream('uint8array');
+
+    stream
+      .on('data', (chunk) => {
+        total += chunk.length;
+        if (total > maxBytes) {
+          stream.pause();
+          reject(new Error('Entry is larger than declared'));
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on('error', reject)
+      .on('end', () => {
+        const bytes = new Uint8Array(total);
+        let offset = 0;
+        for (const chunk of chunks) {
+          bytes.set(chunk, offset);
+          offset += chunk.length;
+        }
+        resolve(bytes);
+      })
+      .resume();
+  });
+};
+
+/**
+ * Drop a folder that wraps every file (e.g. "my-site/index.html")
+ */
+const stripCommonRoot = (files: ProjectFile[]): ProjectFile[] => {
+  const roots = new Set(files.map((file) => (file.path.includes('/') ? file.path.split('/')[0] : '')));
+  const [root] = Array.from(roots);
+
+  if (roots.size !== 1 || !root) return files;
+  return files.map((file) => ({ ...file, path: file.path.slice(root.length + 1) }));
+};
+
+/**
+ * Unpack and validate an uploaded archive without saving anything
+ */
+export const readProjectArchive = async (
+  data: Blob | ArrayBuffer | Uint8Array,
+  archiveName: string = 'imported-project.zip'
+): Promise<ArchiveReadResult> => {
+  const name = archiveName.replace(/\.zip$/i, '').trim() || 'imported-project';
+  const empty: ArchiveReadResult = { success: false, files: [], rejected: [], name };
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (error) {
+    console.warn('[Import] Failed to read archive:', error);
+    return { ...empty, error: 'الملف ليس أرشيف ZIP صالحاً' };
+  }
+
+  const entries = (Object.values(zip.files) as ZipEntryWithSizes[])
+    .filter((entry) => !entry.dir && !IGNORED_ENTRY_PATTERN.test(entry.unsafeOriginalName ?? entry.name));
+  const infos = entries.map(toEntryInfo);
+
+  const archiveCheck = validateArchive(infos);
+  if (!archiveCheck.valid) {
+    return { ...empty, error: archiveCheck.errors.join(' · ') };
+  }
+
+  const files: ProjectFile[] = [];
+  const rejected: ImportRejection[] = [];
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+
+  for (const [i, entry] of entries.entries()) {
+    const info = infos[i];
+    const validation = validateArchiveEntry(info);
+
+    if (!validation.valid) {
+      rejected.push({ path: info.path, errors: validation.errors });
+      continue;
+    }
+
+    try {
+      const bytes = await readEntryBytes(entry, Math.min(info.size, getMaxFileSize(info.path)));
+      files.push(isBinaryFile(info.path)
+        ? { path: info.path, content: bytesToBase64(bytes), type: 'binary' }
+        : { path: info.path, content: decoder.decode(bytes), type: 'text' });
+    } catch (error) {
+      const message = error instanceof TypeError ? 'الملف ليس نصاً بترميز UTF-8' : 'تعذر استخراج الملف';
+      rejected.push({ path: info.path, errors: [message] });
+    }
+  }
+
+  if (files.length === 0) {
+    return { ...empty, rejected, error: 'لا توجد ملفات صالحة في الأرشيف' };
+  }
+
+  if (import.meta.env.DEV) {
+    console.log('[Import] Archive read:', { files: files.length, rejected: rejected.length });
+  }
+
+  return { success: true, files: stripCommonRoot(files), rejected, name };
+};
+
+/**
+ * Save files read from an archive as a new project
+ */
+export const importProject = (userId: string, name: string, files: ProjectFile[]): ProjectSaveResult => {
+  return createProject(userId, name, files);
+};
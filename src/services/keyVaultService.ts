@@ -0,0 +1,415 @@
+/**
+ * Key Vault Service
+ * =================
+ * Stores users' own provider API keys encrypted in IndexedDB. Keys are
+ * sealed with AES-GCM under a key derived from a passphrase (PBKDF2),
+ * decrypted only while the vault is unlocked, and handed to the AI
+ * service as session keys. The vault locks itself after a period of
+ * inactivity. Key material and passphrases are never logged.
+ */
+
+import { isIndexedDbAvailable, openDatabase, requestToPromise, withStore } from '@/lib/indexedDb';
+import type { AIProvider } from './aiService';
+import { releaseSessionApiKey, setSessionApiKey } from './aiSettingsService';
+
+export interface VaultState {
+  exists: boolean;
+  unlocked: boolean;
+  providers: AIProvider[];
+}
+
+export interface VaultResult {
+  success: boolean;
+  error?: string;
+}
+
+interface EncryptedValue {
+  iv: Uint8Array;
+  data: Uint8Array;
+}
+
+interface VaultMeta {
+  id: typeof META_ID;
+  salt: Uint8Array;
+  iterations: number;
+  // Known value encrypted with the vault key, used to check a passphrase
+  check: EncryptedValue;
+}
+
+interface VaultKeyRecord {
+  id: AIProvider;
+  secret: EncryptedValue;
+  updatedAt: number;
+}
+
+type VaultRecord = VaultMeta | VaultKeyRecord;
+
+const DB_NAME = 'ntfly-key-vault';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+const META_ID = '__vault__';
+
+// PBKDF2-SHA256 work factor for new vaults (stored per vault)
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+const MIN_PASSPHRASE_LENGTH = 8;
+const CHECK_VALUE = 'ntfly-key-vault';
+
+// Lock after this long without user activity
+export const VAULT_AUTO_LOCK_MS = 15 * 60 * 1000;
+
+// DOM events that count as user activity
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown'];
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let vaultKey: CryptoKey | null = null;
+// Keys the vault handed to the AI service, by provider
+const appliedKeys: Map<AIProvider, string> = new Map();
+let lockTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners: Set<(unlocked: boolean) => void> = new Set();
+
+/**
+ * Open (once) the vault database
+ */
+const getDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    }).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Check if the vault can be used in this environment
+ */
+export const isVaultAvailable = (): boolean => {
+  return isIndexedDbAvailable() && typeof crypto !== 'undefined' && !!crypto.subtle;
+};
+
+/**
+ * Read every vault record
+ */
+const readRecords = async (): Promise<VaultRecord[]> => {
+  const db = await getDatabase();
+  return withStore(db, STORE_NAME, 'readonly', (store) => requestToPromise<VaultRecord[]>(store.getAll()));
+};
+
+const isMeta = (record: VaultRecord): record is VaultMeta => record.id === META_ID;
+
+/**
+ * Derive the AES-GCM vault key from a passphrase
+ */
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Encrypt a value. The record id is bound as additional data so a
+ * ciphertext cannot be moved to another provider's record.
+ */
+const encryptValue = async (key: CryptoKey, id: string, value: string): Promise<EncryptedValue> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(id) },
+    key,
+    encoder.encode(value)
+  );
+  return { iv, data: new Uint8Array(data) };
+};
+
+/**
+ * Decrypt a value; throws if the key is wrong or the data was altered
+ */
+const decryptValue = async (key: CryptoKey, id: string, value: EncryptedValue): Promise<string> => {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: value.iv, additionalData: encoder.encode(id) },
+    key,
+    value.data
+  );
+  return decoder.decode(data);
+};
+
+/**
+ * Notify subscribers that the lock state changed
+ */
+const notify = (): void => {
+  listeners.forEach((listener) => listener(vaultKey !== null));
+};
+
+/**
+ * Restart the inactivity timer
+ */
+export const touchVault = (): void => {
+  if (!vaultKey) return;
+  if (lockTimer) clearTimeout(lockTimer);
+  lockTimer = setTimeout(() => {
+    if (import.meta.env.DEV) {
+      console.log('[KeyVault] Locked after inactivity');
+    }
+    lockVault();
+  }, VAULT_AUTO_LOCK_MS);
+};
+
+/**
+ * Start or stop watching for user activity
+ */
+const watchActivity = (enabled: boolean): void => {
+  if (typeof window === 'undefined') return;
+  for (const event of ACTIVITY_EVENTS) {
+    if (enabled) {
+      window.addEventListener(event, touchVault, { passive: true });
+    } else {
+      window.removeEventListener(event, touchVault);
+    }
+  }
+};
+
+/**
+ * Hand a key to the AI service and remember that the vault set it
+ */
+const applyVaultKey = (provider: AIProvider, apiKey: string): void => {
+  setSessionApiKey(provider, apiKey);
+  appliedKeys.set(provider, apiKey.trim());
+};
+
+/**
+ * Take back a key the vault set, unless it was replaced by hand since
+ */
+const releaseVaultKey = (provider: AIProvider): void => {
+  const apiKey = appliedKeys.get(provider);
+  if (apiKey === undefined) return;
+  releaseSessionApiKey(provider, apiKey);
+  appliedKeys.delete(provider);
+};
+
+/**
+ * Decrypt the stored keys and hand them to the AI service. Nothing is
+ * applied unless every key decrypts.
+ */
+const openVault = async (key: CryptoKey, records: VaultRecord[]): Promise<void> => {
+  const keyRecords = records.filter((record): record is VaultKeyRecord => !isMeta(record));
+  const decrypted = await Promise.all(
+    keyRecords.map(async (record) => ({ provider: record.id, apiKey: await decryptValue(key, record.id, record.secret) }))
+  );
+
+  decrypted.forEach(({ provider, apiKey }) => applyVaultKey(provider, apiKey));
+  vaultKey = key;
+  watchActivity(true);
+  touchVault();
+  notify();
+};
+
+/**
+ * Get whether a vault exists, whether it is unlocked, and which
+ * providers have a stored key
+ */
+export const getVaultState = async (): Promise<VaultState> => {
+  if (!isVaultAvailable()) {
+    return { exists: false, unlocked: false, providers: [] };
+  }
+
+  try {
+    const records = await readRecords();
+    return {
+      exists: records.some(isMeta),
+      unlocked: vaultKey !== null,
+      providers: records.filter((record) => !isMeta(record)).map((record) => record.id as AIProvider),
+    };
+  } catch (error) {
+    console.warn('[KeyVault] Failed to read vault:', error);
+    return { exists: false, unlocked: false, providers: [] };
+  }
+};
+
+/**
+ * Check if the vault is currently unlocked
+ */
+export const isVaultUnlocked = (): boolean => vaultKey !== null;
+
+/**
+ * Create a new, empty vault protected by a passphrase and unlock it
+ */
+export const createVault = async (passphrase: string): Promise<VaultResult> => {
+  if (!isVaultAvailable()) {
+    return { success: false, error: 'المتصفح لا يدعم التخزين المشفر' };
+  }
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return { success: false, error: `كلمة المرور يجب أن تكون ${MIN_PASSPHRASE_LENGTH} أحرف على الأقل` };
+  }
+
+  try {
+    const records = await readRecords();
+    if (records.some(isMeta)) {
+      return { success: false, error: 'الخزنة موجودة بالفعل' };
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const meta: VaultMeta = {
+      id: META_ID,
+      salt,
+      iterations: PBKDF2_ITERATIONS,
+      check: await encryptValue(key, META_ID, CHECK_VALUE),
+    };
+
+    const db = await getDatabase();
+    await withStore(db, STORE_NAME, 'readwrite', (store) => requestToPromise(store.put(meta)));
+    await openVault(key, []);
+
+    if (import.meta.env.DEV) {
+      console.log('[KeyVault] Vault created');
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('[KeyVault] Failed to create vault:', error);
+    return { success: false, error: 'تعذر إنشاء الخزنة' };
+  }
+};
+
+/**
+ * Unlock the vault for this session
+ */
+export const unlockVault = async (passphrase: string): Promise<VaultResult> => {
+  if (!isVaultAvailable()) {
+    return { success: false, error: 'المتصفح لا يدعم التخزين المشفر' };
+  }
+
+  try {
+    const records = await readRecords();
+    const meta = records.find(isMeta);
+    if (!meta) {
+      return { success: false, error: 'لا توجد خزنة بعد' };
+    }
+
+    const key = await deriveKey(passphrase, meta.salt, meta.iterations);
+    try {
+      if (await decryptValue(key, META_ID, meta.check) !== CHECK_VALUE) throw new Error('Vault check mismatch');
+    } catch {
+      return { success: false, error: 'كلمة المرور غير صحيحة' };
+    }
+
+    await openVault(key, records);
+    if (import.meta.env.DEV) {
+      console.log('[KeyVault] Vault unlocked:', { providers: Array.from(appliedKeys.keys()) });
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('[KeyVault] Failed to unlock vault:', error);
+    return { success: false, error: 'تعذر فتح الخزنة' };
+  }
+};
+
+/**
+ * Lock the vault and remove its keys from the AI service
+ */
+export const lockVault = (): void => {
+  if (lockTimer) clearTimeout(lockTimer);
+  lockTimer = null;
+  watchActivity(false);
+
+  const wasUnlocked = vaultKey !== null;
+  vaultKey = null;
+  Array.from(appliedKeys.keys()).forEach(releaseVaultKey);
+
+  if (wasUnlocked) notify();
+};
+
+/**
+ * Encrypt and store a provider's API key (vault must be unlocked)
+ */
+export const saveVaultKey = async (provider: AIProvider, apiKey: string): Promise<VaultResult> => {
+  if (!vaultKey) {
+    return { success: false, error: 'الخزنة مقفلة' };
+  }
+  if (!apiKey.trim()) {
+    return { success: false, error: 'أدخل مفتاح API' };
+  }
+
+  try {
+    const record: VaultKeyRecord = {
+      id: provider,
+      secret: await encryptValue(vaultKey, provider, apiKey.trim()),
+      updatedAt: Date.now(),
+    };
+
+    const db = await getDatabase();
+    await withStore(db, STORE_NAME, 'readwrite', (store) => requestToPromise(store.put(record)));
+
+    applyVaultKey(provider, apiKey);
+    touchVault();
+
+    if (import.meta.env.DEV) {
+      console.log('[KeyVault] Key stored for provider:', provider);
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('[KeyVault] Failed to store key:', error);
+    return { success: false, error: 'تعذر حفظ المفتاح' };
+  }
+};
+
+/**
+ * Remove a provider's API key from the vault
+ */
+export const removeVaultKey = async (provider: AIProvider): Promise<VaultResult> => {
+  try {
+    const db = await getDatabase();
+    await withStore(db, STORE_NAME, 'readwrite', (store) => requestToPromise(store.delete(provider)));
+
+    releaseVaultKey(provider);
+
+    if (import.meta.env.DEV) {
+      console.log('[KeyVault] Key removed for provider:', provider);
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('[KeyVault] Failed to remove key:', error);
+    return { success: false, error: 'تعذر حذف المفتاح' };
+  }
+};
+
+/**
+ * Delete the vault and every stored key (e.g. a forgotten passphrase)
+ */
+export const resetVault = async (): Promise<VaultResult> => {
+  lockVault();
+
+  try {
+    const db = await getDatabase();
+    await withStore(db, STORE_NAME, 'readwrite', (store) => requestToPromise(store.clear()));
+
+    if (import.meta.env.DEV) {
+      console.log('[KeyVault] Vault reset');
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('[KeyVault] Failed to reset vault:', error);
+    return { success: false, error: 'تعذر حذف الخزنة' };
+  }
+};
+
+/**
+ * Subscribe to lock state changes; returns an unsubscribe function
+ */
+export const subscribeToVault = (listener: (unlocked: boolean) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
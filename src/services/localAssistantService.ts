@@ -0,0 +1,302 @@
+/**
+ * Local Assistant Service
+ * =======================
+ * Offline assistant used when no AI provider answers. Classifies the
+ * user's message into an intent with a small token-based classifier
+ * (Arabic and English), replies in the user's language, and offers app
+ * actions such as creating a project or showing the quota.
+ */
+
+import { DEFAULT_TEMPLATE_ID, downloadTemplate, renderTemplateFiles } from './templateService';
+import { createProject } from './projectService';
+import { getUserQuotaStatus } from './quotaService';
+
+export type AssistantLanguage = 'ar' | 'en';
+
+export type AssistantIntent =
+  | 'create_project'
+  | 'download_template'
+  | 'show_quota'
+  | 'code'
+  | 'help'
+  | 'greeting'
+  | 'unknown';
+
+export type AssistantActionType = 'create_project' | 'show_quota' | 'download_template';
+
+export interface AssistantAction {
+  type: AssistantActionType;
+  label: string;
+  language: AssistantLanguage;
+  projectName?: string;
+  // Actions that change data or download files wait for the user
+  requiresConfirmation: boolean;
+}
+
+export interface IntentMatch {
+  intent: AssistantIntent;
+  language: AssistantLanguage;
+  // Keyword groups matched by the winning rule (0 when unknown)
+  score: number;
+}
+
+export interface LocalReply {
+  message: string;
+  intent: AssistantIntent;
+  language: AssistantLanguage;
+  action?: AssistantAction;
+}
+
+export interface AssistantActionResult {
+  success: boolean;
+  message: string;
+}
+
+// An intent matches when every group has at least one keyword in the
+// message; rules with more groups are more specific and win
+interface IntentRule {
+  intent: AssistantIntent;
+  groups: string[][];
+}
+
+const DEFAULT_PROJECT_NAME = 'my-project';
+
+const CREATE_WORDS = ['create', 'new', 'make', 'build', 'start', 'generate', 'أنشئ', 'انشاء', 'إنشاء', 'اصنع', 'جديد', 'جديدة', 'ابدأ', 'ابني'];
+const PROJECT_WORDS = ['project', 'site', 'website', 'app', 'application', 'مشروع', 'موقع', 'تطبيق'];
+const DOWNLOAD_WORDS = ['download', 'export', 'تحميل', 'حمل', 'نزل', 'تنزيل'];
+const TEMPLATE_WORDS = ['template', 'sample', 'demo', 'starter', 'boilerplate', 'example', 'نموذج', 'نموذجي', 'قالب', 'مثال'];
+const QUOTA_WORDS = ['quota', 'limit', 'limits', 'remaining', 'usage', 'credits', 'حصة', 'حصتي', 'حد', 'حدود', 'متبقي', 'المتبقي', 'رصيد', 'رصيدي', 'استخدامي'];
+const CODE_WORDS = ['code', 'coding', 'function', 'program', 'script', 'كود', 'برمجة', 'دالة', 'برنامج'];
+const HELP_WORDS = ['help', 'assist', 'capabilities', 'مساعدة', 'ساعدني', 'ساعد'];
+const GREETING_WORDS = ['hello', 'hi', 'hey', 'greetings', 'salam', 'مرحبا', 'مرحباً', 'أهلا', 'أهلاً', 'اهلا', 'السلام', 'سلام', 'هلا'];
+
+const INTENT_RULES: IntentRule[] = [
+  { intent: 'download_template', groups: [DOWNLOAD_WORDS, TEMPLATE_WORDS] },
+  { intent: 'create_project', groups: [CREATE_WORDS, PROJECT_WORDS] },
+  { intent: 'show_quota', groups: [QUOTA_WORDS] },
+  { intent: 'code', groups: [CODE_WORDS] },
+  { intent: 'help', groups: [HELP_WORDS] },
+  { intent: 'greeting', groups: [GREETING_WORDS] },
+];
+
+const REPLIES: Record<AssistantIntent, Record<AssistantLanguage, string>> = {
+  greeting: {
+    ar: 'مرحباً! كيف يمكنني مساعدتك اليوم؟',
+    en: 'Hello! How can I help you today?',
+  },
+  help: {
+    ar: 'أنا هنا لمساعدتك! يمكنني إنشاء مشروع جديد، عرض حصتك المتبقية، أو تحميل مشروع نموذجي.',
+    en: 'I\'m here to help! I can create a new project, show your remaining quota, or download a sample project.',
+  },
+  create_project: {
+    ar: 'يمكنني إنشاء مشروع جديد باسم "{name}". اضغط الزر للتأكيد.',
+    en: 'I can create a new project named "{name}". Press the button to confirm.',
+  },
+  download_template: {
+    ar: 'يمكنني تحميل مشروع نموذجي جاهز باسم "{name}". اضغط الزر لبدء التحميل.',
+    en: 'I can download a ready-made sample project named "{name}". Press the button to start the download.',
+  },
+  show_quota: {
+    ar: 'إليك حصتك الحالية.',
+    en: 'Here is your current quota.',
+  },
+  code: {
+    ar: 'أستطيع مساعدتك في كتابة الأكواد. ما هي اللغة أو الإطار الذي تريد استخدامه؟',
+    en: 'I can help you write code. Which language or framework would you like to use?',
+  },
+  unknown: {
+    ar: 'شكراً على رسالتك! هذا وضع المعاينة المحلية. للحصول على ردود ذكاء اصطناعي كاملة، يرجى تكوين مفتاح API.',
+    en: 'Thanks for your message! This is the local preview mode. Configure an API key to get full AI replies.',
+  },
+};
+
+const ACTION_LABELS: Record<AssistantActionType, Record<AssistantLanguage, string>> = {
+  create_project: { ar: 'إنشاء المشروع', en: 'Create project' },
+  download_template: { ar: 'تحميل النموذج', en: 'Download sample' },
+  show_quota: { ar: 'عرض الحصة', en: 'Show quota' },
+};
+
+/**
+ * Normalise text for matching: Arabic letter variants and diacritics,
+ * then lower case
+ */
+const normalize = (text: string): string => {
+  return text
+    .replace(/[\u064B-\u0652\u0640]/g, '')
+    .replace(/[أإآ]/g, 'ا')
+    .replace(/ى/g, 'ي')
+    .replace(/ة/g, 'ه')
+    .toLowerCase();
+};
+
+/**
+ * Word variants to look up: Arabic words also without a leading
+ * conjunction/preposition, the article and the accusative alif
+ * ("مشروعاً"), English words also without a plural "s"
+ */
+const toVariants = (word: string): string[] => {
+  const variants = [word];
+
+  if (/[\u0600-\u06FF]/.test(word)) {
+    const withoutPrefix = word.replace(/^(?:و|ف|ب|ل)(?=..)/, '');
+    for (const base of [word, withoutPrefix]) {
+      const stems = base.startsWith('ال') && base.length > 4 ? [base, base.slice(2)] : [base];
+      for (const stem of stems) {
+        variants.push(stem);
+        if (stem.length > 3 && stem.endsWith('ا')) variants.push(stem.slice(0, -1));
+      }
+    }
+  } else if (word.length > 3 && word.endsWith('s')) {
+    variants.push(word.slice(0, -1));
+  }
+
+  return variants;
+};
+
+// Keyword groups normalised once, so matching is a set lookup
+const NORMALIZED_RULES = INTENT_RULES.map((rule) => ({
+  intent: rule.intent,
+  groups: rule.groups.map((group) => new Set(group.map(normalize))),
+}));
+
+/**
+ * Split a message into normalised word variants
+ */
+const tokenize = (text: string): Set<string> => {
+  const words = normalize(text).match(/[\p{L}\p{N}]+/gu) || [];
+  return new Set(words.flatMap(toVariants));
+};
+
+/**
+ * Detect whether a message is Arabic or English. Arabic is the default
+ * when the message has no letters of either script.
+ */
+export const detectLanguage = (text: string): AssistantLanguage => {
+  const arabic = (text.match(/[\u0600-\u06FF]/g) || []).length;
+  const latin = (text.match(/[A-Za-z]/g) || []).length;
+  return latin > arabic ? 'en' : 'ar';
+};
+
+/**
+ * Classify a message into an intent. Whole words are matched, so "hi"
+ * does not fire on "this".
+ */
+export const classifyIntent = (text: string): IntentMatch => {
+  const tokens = tokenize(text);
+  const language = detectLanguage(text);
+  let best: IntentMatch = { intent: 'unknown', language, score: 0 };
+
+  for (const rule of NORMALIZED_RULES) {
+    const matched = rule.groups.every((group) => Array.from(group).some((keyword) => tokens.has(keyword)));
+    if (matched && rule.groups.length > best.score) {
+      best = { intent: rule.intent, language, score: rule.groups.length };
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Extract a project name from phrases like "called X" or "باسم X"
+ */
+const extractProjectName = (text: string): string => {
+  const match = text.match(/(?:called|named|باسم|اسمه|بعنوان)\s+["'«]?([^"'»\n]+?)["'»]?\s*[.!؟?]*$/i);
+  const name = match?.[1].trim().slice(0, 100);
+  return name || DEFAULT_PROJECT_NAME;
+};
+
+/**
+ * Build the app action offered for an intent, if any
+ */
+const toAction = (intent: AssistantIntent, language: AssistantLanguage, text: string): AssistantAction | undefined => {
+  switch (intent) {
+    case 'create_project':
+    case 'download_template':
+      return {
+        type: intent,
+        label: ACTION_LABELS[intent][language],
+        language,
+        projectName: extractProjectName(text),
+        requiresConfirmation: true,
+      };
+    case 'show_quota':
+      return { type: intent, label: ACTION_LABELS[intent][language], language, requiresConfirmation: false };
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Reply to a message locally, in the user's language
+ */
+export const replyLocally = (text: string): LocalReply => {
+  const { intent, language } = classifyIntent(text);
+  const action = toAction(intent, language, text);
+  const message = REPLIES[intent][language].replace('{name}', action?.projectName || '');
+
+  return { message, intent, language, ...(action ? { action } : {}) };
+};
+
+/**
+ * Format the user's quota as a short report
+ */
+const formatQuota = (userId: string, language: AssistantLanguage): string => {
+  const { projects, apiCalls, storage } = getUserQuotaStatus(userId);
+  const storageLeft = storage.remaining.toFixed(2);
+
+  return language === 'ar'
+    ? [
+      `المشاريع المتبقية اليوم: ${projects.remaining}/${projects.limit}`,
+      `طلبات الذكاء الاصطناعي المتبقية هذه الساعة: ${apiCalls.remaining}/${apiCalls.limit}`,
+      `المساحة المتاحة: ${storageLeft}/${storage.limit} MB`,
+    ].join('\n')
+    : [
+      `Projects left today: ${projects.remaining}/${projects.limit}`,
+      `AI requests left this hour: ${apiCalls.remaining}/${apiCalls.limit}`,
+      `Storage available: ${storageLeft}/${storage.limit} MB`,
+    ].join('\n');
+};
+
+/**
+ * Run an action offered by the local assistant
+ */
+export const performAssistantAction = async (
+  userId: string,
+  action: AssistantAction
+): Promise<AssistantActionResult> => {
+  const ar = action.language === 'ar';
+  const name = action.projectName || DEFAULT_PROJECT_NAME;
+
+  switch (action.type) {
+    case 'show_quota':
+      return { success: true, message: formatQuota(userId, action.language) };
+
+    case 'create_project': {
+      const rendered = renderTemplateFiles(DEFAULT_TEMPLATE_ID, { name, language: action.language, direction: ar ? 'rtl' : 'ltr' });
+      if (!rendered.success) {
+        return { success: false, message: rendered.error };
+      }
+      const result = createProject(userId, name, rendered.files);
+      if (!result.success) {
+        return { success: false, message: result.error || (ar ? 'تعذر إنشاء المشروع' : 'Could not create the project') };
+      }
+      return {
+        success: true,
+        message: ar
+          ? `تم إنشاء المشروع "${result.project.name}" بنجاح. ستجده في لوحة التحكم.`
+          : `Project "${result.project.name}" was created. You will find it on your dashboard.`,
+      };
+    }
+
+    case 'download_template': {
+      const result = await downloadTemplate(DEFAULT_TEMPLATE_ID, { name, language: action.language, direction: ar ? 'rtl' : 'ltr' });
+      if (!result.success) {
+        return { success: false, message: result.error || (ar ? 'تعذر التحميل' : 'The download failed') };
+      }
+      return {
+        success: true,
+        message: ar ? `تم تحميل ${result.filename}` : `Downloaded ${result.filename}`,
+      };
+    }
+  }
+};
@@ -0,0 +1,197 @@
+/**
+ * Project Service
+ * ===============
+ * Stores user projects and their files.
+ * Currently uses in-memory storage - ready for database integration.
+ * 
+ * Does NOT require database connection to function.
+ */
+
+import { getBase64ByteLength } from '@/lib/base64';
+import type { ProjectFile } from './downloadService';
+import {
+  canCreateProject,
+  canUseStorage,
+  recordProjectCreation,
+  recordStorageUsage,
+  releaseStorageUsage,
+} from './quotaService';
+import { projectNameSchema, validateProjectPath } from './securityService';
+
+export interface Project {
+  id: string;
+  userId: string;
+  name: string;
+  files: ProjectFile[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProjectSaveResult {
+  success: boolean;
+  project?: Project;
+  error?: string;
+}
+
+// In-memory storage for projects
+const projects: Map<string, Project> = new Map();
+
+/**
+ * Generate unique ID for a project
+ */
+const generateProjectId = (): string => {
+  return `project_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+/**
+ * Get the stored size of a file in bytes (decoded size for binary files)
+ */
+export const getProjectFileBytes = (file: ProjectFile): number => {
+  return file.type === 'binary'
+    ? getBase64ByteLength(file.content)
+    : new TextEncoder().encode(file.content).length;
+};
+
+/**
+ * Get the size of project files in MB
+ */
+export const getProjectSizeMB = (files: ProjectFile[]): number => {
+  const bytes = files.reduce((total, file) => total + getProjectFileBytes(file), 0);
+  return bytes / (1024 * 1024);
+};
+
+/**
+ * Create a project for a user, enforcing project and storage quotas
+ */
+export const createProject = (
+  userId: string,
+  name: string,
+  files: ProjectFile[]
+): ProjectSaveResult => {
+  const nameResult = projectNameSchema.safeParse(name);
+  if (!nameResult.success) {
+    return { success: false, error: nameResult.error.errors[0].message };
+  }
+  
+  const invalidFile = files.find((file) => !validateProjectPath(file.path).valid);
+  if (invalidFile) {
+    return { success: false, error: `مسار غير صالح: ${invalidFile.path}` };
+  }
+  
+  const projectQuota = canCreateProject(userId);
+  if (!projectQuota.allowed) {
+    return { success: false, error: projectQuota.message };
+  }
+  
+  const sizeMB = getProjectSizeMB(files);
+  const storageQuota = canUseStorage(userId, sizeMB);
+  if (!storageQuota.allowed) {
+    return { success: false, error: storageQuota.message };
+  }
+  
+  recordProjectCreation(userId);
+  recordStorageUsage(userId, sizeMB);
+  
+  const now = new Date();
+  const project: Project = {
+    id: generateProjectId(),
+    userId,
+    name: nameResult.data,
+    files: files.map((file) => ({ ...file })),
+    createdAt: now,
+    updatedAt: now,
+  };
+  
+  projects.set(project.id, project);
+  
+  if (import.meta.env.DEV) {
+    console.log('[ProjectService] Project created:', {
+      id: project.id,
+      userId,
+      files: files.length,
+    });
+  }
+  
+  return { success: true, project };
+};
+
+/**
+ * Get a project by ID
+ */
+export const getProject = (projectId: string): Project | null => {
+  return projects.get(projectId) || null;
+};
+
+/**
+ * Get all projects of a user, most recently updated first
+ */
+export const getUserProjects = (userId: string): Project[] => {
+  return Array.from(projects.values())
+    .filter((project) => project.userId === userId)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+/**
+ * Read a single file from a project
+ */
+export const readProjectFile = (projectId: string, path: string): ProjectFile | null => {
+  const project = projects.get(projectId);
+  return project?.files.find((file) => file.path === path) || null;
+};
+
+/**
+ * Create or overwrite a file in a project, enforcing the storage quota
+ */
+export const writeProjectFile = (
+  projectId: string,
+  file: ProjectFile
+): ProjectSaveResult => {
+  const project = projects.get(projectId);
+  if (!project) {
+    return { success: false, error: 'المشروع غير موجود' };
+  }
+  
+  const pathResult = validateProjectPath(file.path);
+  if (!pathResult.valid) {
+    return { success: false, error: pathResult.errors[0] };
+  }
+  
+  const existing = project.files.find((entry) => entry.path === file.path);
+  const deltaMB = getProjectSizeMB([file]) - (existing ? getProjectSizeMB([existing]) : 0);
+  
+  if (!recordStorageUsage(project.userId, deltaMB)) {
+    return { success: false, error: canUseStorage(project.userId, deltaMB).message };
+  }
+  
+  project.files = existing
+    ? project.files.map((entry) => (entry.path === file.path ? { ...file } : entry))
+    : [...project.files, { ...file }];
+  project.updatedAt = new Date();
+  
+  return { success: true, project };
+};
+
+/**
+ * Delete a project, releasing its storage
+ */
+export const deleteProject = (projectId: string): boolean => {
+  const project = projects.get(projectId);
+  if (!project) return false;
+  
+  releaseStorageUsage(project.userId, getProjectSizeMB(project.files));
+  return projects.delete(projectId);
+};
+
+/**
+ * Get all projects (admin function)
+ */
+export const getAllProjects = (): Project[] => {
+  return Array.from(projects.values());
+};
+
+/**
+ * Clear all projects from memory
+ */
+export const clearProjects = (): void => {
+  projects.clear();
+};
@@ -0,0 +1,373 @@
+/**
+ * Prompt Service
+ * ==============
+ * Registry of versioned prompt templates with {{variable}} placeholders.
+ * Built-in templates live in code; admin edits are stored as new
+ * versions in the Firestore document settings/prompts when Firebase is
+ * configured, localStorage otherwise, so every user gets them.
+ */
+
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db, isFirebaseConfigured } from '@/lib/firebase';
+import type { AIMessage, AIProvider } from './aiService';
+
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  locale: string;
+  title: string;
+  system: string;
+  user: string;
+  provider?: AIProvider;
+  model?: string;
+  builtIn?: boolean;
+  updatedAt: string;
+}
+
+export type PromptTemplateInput = Omit<PromptTemplate, 'version' | 'builtIn' | 'updatedAt'>;
+
+export interface RenderedPrompt {
+  success: boolean;
+  messages: AIMessage[];
+  missing: string[];
+  template?: PromptTemplate;
+  error?: string;
+}
+
+export interface PromptLookupOptions {
+  locale?: string;
+  version?: number;
+}
+
+// Locale used when a template has no version for the requested locale
+export const DEFAULT_PROMPT_LOCALE = 'en';
+
+// localStorage key for admin-edited versions when Firestore is not available
+const STORAGE_KEY = 'ntfly-prompt-templates';
+
+// Template ids look like "code.generate"
+const PROMPT_ID_PATTERN = /^[a-z][a-z0-9_-]*(?:\.[a-z][a-z0-9_-]*)*$/;
+
+// Matches {{ name }} placeholders
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_][\w]*)\s*\}\}/g;
+
+const PROVIDERS: AIProvider[] = ['chatgpt', 'gemini', 'sonnet', 'ollama', 'local'];
+
+const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'project.generate',
+    version: 1,
+    locale: 'en',
+    title: 'Generate project',
+    system: [
+      "You are a project generator. Create a small, complete {{language}} project for the user's description.",
+      'Reply ONLY with a JSON object of the form {"files":[{"path":"relative/path.ext","content":"file contents"}]}.',
+      'Use relative paths with forward slashes. Do not add explanations outside the JSON.',
+    ].join(' '),
+    user: '{{description}}',
+    builtIn: true,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'code.generate',
+    version: 1,
+    locale: 'en',
+    title: 'Generate code',
+    system: 'You are a code generator. Generate {{language}} code based on the description.',
+    user: '{{description}}',
+    builtIn: true,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'code.explain',
+    version: 1,
+    locale: 'en',
+    title: 'Explain code',
+    system: 'You are a patient programming teacher. Explain what the following {{language}} code does, step by step, in plain language.',
+    user: '```{{language}}\n{{code}}\n```',
+    builtIn: true,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'code.explain',
+    version: 1,
+    locale: 'ar',
+    title: 'شرح الكود',
+    system: 'أنت معلم برمجة صبور. اشرح ما يفعله كود {{language}} التالي خطوة بخطوة وبلغة عربية بسيطة.',
+    user: '```{{language}}\n{{code}}\n```',
+    builtIn: true,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'code.refactor',
+    version: 1,
+    locale: 'en',
+    title: 'Refactor code',
+    system: 'You are a senior {{language}} engineer. Refactor the code to follow these instructions: {{instructions}}. Keep the behaviour unchanged and reply with the full refactored code only.',
+    user: '```{{language}}\n{{code}}\n```',
+    builtIn: true,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+];
+
+// Admin-edited versions, loaded by loadPromptTemplates
+let storedTemplates: PromptTemplate[] = [];
+
+/**
+ * Get the Firestore document holding admin-edited versions
+ */
+const getTemplatesDoc = () => doc(db, 'settings', 'prompts');
+
+/**
+ * Get the admin-edited template versions currently loaded
+ */
+const readStoredTemplates = (): PromptTemplate[] => storedTemplates;
+
+/**
+ * Persist admin-edited template versions, then use them
+ */
+const writeStoredTemplates = async (templates: PromptTemplate[]): Promise<void> => {
+  if (isFirebaseConfigured()) {
+    // Firestore rejects undefined fields
+    await setDoc(getTemplatesDoc(), { templates: JSON.parse(JSON.stringify(templates)) });
+  } else {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  }
+  storedTemplates = templates;
+};
+
+/**
+ * Load admin-edited template versions. Call once at startup.
+ */
+export const loadPromptTemplates = async (): Promise<PromptTemplate[]> => {
+  try {
+    let templates: unknown = null;
+
+    if (isFirebaseConfigured()) {
+      try {
+        const snapshot = await getDoc(getTemplatesDoc());
+        if (snapshot.exists()) templates = snapshot.data().templates;
+      } catch (error) {
+        console.warn('[PromptService] Firestore read failed, using local templates:', error);
+      }
+    }
+
+    if (!templates) {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      templates = raw ? JSON.parse(raw) : [];
+    }
+
+    storedTemplates = Array.isArray(templates) ? (templates as PromptTemplate[]) : [];
+  } catch (error) {
+    console.error('[PromptService] Failed to read stored templates:', error);
+  }
+
+  return storedTemplates;
+};
+
+/**
+ * Get every version of a template in one locale, newest first
+ */
+export const getPromptVersions = (id: string, locale: string = DEFAULT_PROMPT_LOCALE): PromptTemplate[] => {
+  return [...BUILT_IN_TEMPLATES, ...readStoredTemplates()]
+    .filter((template) => template.id === id && template.locale === locale)
+    .sort((a, b) => b.version - a.version);
+};
+
+/**
+ * Get a template, falling back to the default locale. Without a version
+ * the latest one is returned.
+ */
+export const getPromptTemplate = (
+  id: string,
+  options: PromptLookupOptions = {}
+): PromptTemplate | null => {
+  const locales = [options.locale || DEFAULT_PROMPT_LOCALE, DEFAULT_PROMPT_LOCALE];
+
+  for (const locale of locales) {
+    const versions = getPromptVersions(id, locale);
+    const template = options.version
+      ? versions.find((entry) => entry.version === options.version)
+      : versions[0];
+
+    if (template) return template;
+  }
+
+  return null;
+};
+
+/**
+ * List the latest version of every template and locale
+ */
+export const listPromptTemplates = (): PromptTemplate[] => {
+  const latest = new Map<string, PromptTemplate>();
+
+  for (const template of [...BUILT_IN_TEMPLATES, ...readStoredTemplates()]) {
+    const key = `${template.id}:${template.locale}`;
+    const current = latest.get(key);
+    if (!current || template.version > current.version) {
+      latest.set(key, template);
+    }
+  }
+
+  return Array.from(latest.values()).sort((a, b) =>
+    a.id === b.id ? a.locale.localeCompare(b.locale) : a.id.localeCompare(b.id)
+  );
+};
+
+/**
+ * List the variable names used in a piece of template text
+ */
+export const extractVariables = (text: string): string[] => {
+  const names = new Set<string>();
+  for (const match of text.matchAll(VARIABLE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return Array.from(names);
+};
+
+/**
+ * Replace {{variable}} placeholders, reporting any without a value
+ */
+export const renderTemplate = (
+  text: string,
+  variables: Record<string, string | number>
+): { text: string; missing: string[] } => {
+  const missing = new Set<string>();
+
+  const rendered = text.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    const value = variables[name];
+    if (value === undefined || value === null || value === '') {
+      missing.add(name);
+      return placeholder;
+    }
+    return String(value);
+  });
+
+  return { text: rendered, missing: Array.from(missing) };
+};
+
+/**
+ * Render a registered template into AI messages
+ */
+export const renderPrompt = (
+  id: string,
+  variables: Record<string, string | number>,
+  options: PromptLookupOptions = {}
+): RenderedPrompt => {
+  const template = getPromptTemplate(id, options);
+
+  if (!template) {
+    return { success: false, messages: [], missing: [], error: `قالب غير موجود: ${id}` };
+  }
+
+  const system = renderTemplate(template.system, variables);
+  const user = renderTemplate(template.user, variables);
+  const missing = Array.from(new Set([...system.missing, ...user.missing]));
+
+  if (missing.length > 0) {
+    return {
+      success: false,
+      messages: [],
+      missing,
+      template,
+      error: `متغيرات ناقصة: ${missing.join(', ')}`,
+    };
+  }
+
+  const messages: AIMessage[] = [];
+  if (system.text.trim()) messages.push({ role: 'system', content: system.text });
+  messages.push({ role: 'user', content: user.text });
+
+  return { success: true, messages, missing: [], template };
+};
+
+/**
+ * Validate a template before saving
+ */
+export const validatePromptTemplate = (input: PromptTemplateInput): string[] => {
+  const errors: string[] = [];
+
+  if (!PROMPT_ID_PATTERN.test(input.id || '')) {
+    errors.push('معرف القالب غير صالح (مثال: code.generate)');
+  }
+
+  if (!/^[a-z]{2}(?:-[A-Z]{2})?$/.test(input.locale || '')) {
+    errors.push('رمز اللغة غير صالح (مثال: ar أو en)');
+  }
+
+  if (!input.title?.trim()) {
+    errors.push('العنوان مطلوب');
+  }
+
+  if (!input.user?.trim()) {
+    errors.push('نص رسالة المستخدم مطلوب');
+  }
+
+  // Placeholders with stray braces would be sent to the model verbatim
+  for (const text of [input.system || '', input.user || '']) {
+    const opened = (text.match(/\{\{/g) || []).length;
+    if (opened !== (text.match(VARIABLE_PATTERN) || []).length) {
+      errors.push('يوجد متغير بصيغة غير صحيحة، استخدم {{name}}');
+      break;
+    }
+  }
+
+  if (input.provider && !PROVIDERS.includes(input.provider)) {
+    errors.push('مزود غير مدعوم');
+  }
+
+  return errors;
+};
+
+/**
+ * Save a template as a new version (admin function)
+ */
+export const savePromptTemplate = async (
+  input: PromptTemplateInput
+): Promise<{ success: boolean; template?: PromptTemplate; errors: string[] }> => {
+  const errors = validatePromptTemplate(input);
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const latest = getPromptVersions(input.id, input.locale)[0];
+  const template: PromptTemplate = {
+    id: input.id,
+    locale: input.locale,
+    title: input.title.trim(),
+    system: input.system || '',
+    user: input.user,
+    provider: input.provider || undefined,
+    model: input.model?.trim() || undefined,
+    version: (latest?.version || 0) + 1,
+    updatedAt: new Date().toISOString(),
+  };
+
+  try {
+    await writeStoredTemplates([...readStoredTemplates(), template]);
+  } catch (error) {
+    console.error('[PromptService] Failed to save template:', error);
+    return { success: false, errors: ['تعذر حفظ القالب'] };
+  }
+  if (import.meta.env.DEV) {
+    console.log('[PromptService] Template saved:', { id: template.id, locale: template.locale, version: template.version });
+  }
+
+  return { success: true, template, errors: [] };
+};
+
+/**
+ * Remove admin-edited versions of a template, restoring the built-in one
+ */
+export const resetPromptTemplate = async (id: string, locale: string): Promise<boolean> => {
+  try {
+    await writeStoredTemplates(
+      readStoredTemplates().filter((template) => !(template.id === id && template.locale === locale))
+    );
+    return true;
+  } catch (error) {
+    console.error('[PromptService] Failed to reset template:', error);
+    return false;
+  }
+};
@@ -169,6 +169,14 @@ export const recordApiCall = (userId: string): boolean => {
   return true;
 };
 
+/**
+ * Refund a recorded API call (e.g. when the request was served locally)
+ */
+export const refundApiCall = (userId: string): void => {
+  const quota = getOrCreateUserQuota(userId);
+  quota.apiCallsThisHour = Math.max(0, quota.apiCallsThisHour - 1);
+};
+
 /**
  * Check storage quota
  */
@@ -204,6 +212,14 @@ export const recordStorageUsage = (userId: string, usedMB: number): boolean => {
   return true;
 };
 
+/**
+ * Release storage (e.g. when a project is deleted)
+ */
+export const releaseStorageUsage = (userId: string, freedMB: number): void => {
+  const quota = getOrCreateUserQuota(userId);
+  quota.storageUsedMB = Math.max(0, quota.storageUsedMB - freedMB);
+};
+
 /**
  * Get user's current quota status
  */
@@ -0,0 +1,177 @@
+/**
+ * Response Cache Service
+ * ======================
+ * Content-addressed cache for deterministic AI responses, stored in
+ * IndexedDB with a TTL and size limits. Any storage error is treated
+ * as a cache miss so the cache can never break a request.
+ */
+
+import { isIndexedDbAvailable, openDatabase, requestToPromise, withStore } from '@/lib/indexedDb';
+import type { AIMessage, AIProvider, AIResponse } from './aiService';
+
+export interface ResponseCacheKeyInput {
+  provider: AIProvider;
+  model: string;
+  temperature?: number;
+  messages: AIMessage[];
+}
+
+interface CacheEntry {
+  key: string;
+  response: AIResponse;
+  createdAt: number;
+  expiresAt: number;
+  size: number;
+}
+
+// Default time a cached response stays valid
+export const DEFAULT_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Maximum number of cached responses kept
+const MAX_CACHE_ENTRIES = 200;
+
+// Responses larger than this are not cached
+const MAX_ENTRY_BYTES = 256 * 1024;
+
+const DB_NAME = 'ntfly-ai-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (once) the cache database
+ */
+const getDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      store.createIndex('createdAt', 'createdAt');
+    }).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Check if responses can be cached in this environment
+ */
+export const isResponseCacheAvailable = (): boolean => {
+  return isIndexedDbAvailable() && typeof crypto !== 'undefined' && !!crypto.subtle;
+};
+
+/**
+ * Normalise messages so formatting-only differences share a cache entry
+ */
+const normaliseMessages = (messages: AIMessage[]) => {
+  return messages.map((message) => ({
+    role: message.role,
+    content: message.content
+      .replace(/\r\n?/g, '\n')
+      .split('\n')
+      .map((line) => line.trimEnd())
+      .join('\n')
+      .trim(),
+    toolCalls: message.toolCalls,
+    toolCallId: message.toolCallId,
+  }));
+};
+
+/**
+ * Compute the SHA-256 cache key of a request
+ */
+export const createCacheKey = async (input: ResponseCacheKeyInput): Promise<string> => {
+  const payload = JSON.stringify({
+    provider: input.provider,
+    model: input.model,
+    temperature: input.temperature ?? null,
+    messages: normaliseMessages(input.messages),
+  });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Get a cached response, or null on a miss or expired entry
+ */
+export const getCachedResponse = async (key: string): Promise<AIResponse | null> => {
+  try {
+    const db = await getDatabase();
+    const entry = await withStore(db, STORE_NAME, 'readonly', (store) =>
+      requestToPromise<CacheEntry | undefined>(store.get(key))
+    );
+
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      await withStore(db, STORE_NAME, 'readwrite', (store) => requestToPromise(store.delete(key)));
+      return null;
+    }
+
+    return { ...entry.response, cached: true };
+  } catch (error) {
+    console.warn('[ResponseCache] Read failed:', error);
+    return null;
+  }
+};
+
+/**
+ * Drop the oldest entries beyond the size limit
+ */
+const pruneEntries = async (db: IDBDatabase): Promise<void> => {
+  await withStore(db, STORE_NAME, 'readwrite', async (store) => {
+    const excess = (await requestToPromise(store.count())) - MAX_CACHE_ENTRIES;
+    if (excess <= 0) return;
+
+    const oldestKeys = await requestToPromise(
+      store.index('createdAt').getAllKeys(null, excess)
+    );
+
+    for (const key of oldestKeys) {
+      store.delete(key);
+    }
+  });
+};
+
+/**
+ * Store a response in the cache
+ */
+export const setCachedResponse = async (
+  key: string,
+  response: AIResponse,
+  ttlMs: number = DEFAULT_CACHE_TTL_MS
+): Promise<void> => {
+  // Per-call details do not belong in a shared entry
+  const { attempts: _attempts, context: _context, cost: _cost, cached: _cached, ...stored } = response;
+  const size = new TextEncoder().encode(JSON.stringify(stored)).length;
+
+  if (size > MAX_ENTRY_BYTES) return;
+
+  try {
+    const db = await getDatabase();
+    const now = Date.now();
+    const entry: CacheEntry = { key, response: stored, createdAt: now, expiresAt: now + ttlMs, size };
+
+    await withStore(db, STORE_NAME, 'readwrite', (store) => requestToPromise(store.put(entry)));
+    await pruneEntries(db);
+  } catch (error) {
+    console.warn('[ResponseCache] Write failed:', error);
+  }
+};
+
+/**
+ * Remove every cached response
+ */
+export const clearResponseCache = async (): Promise<void> => {
+  try {
+    const db = await getDatabase();
+    await withStore(db, STORE_NAME, 'readwrite', (store) => requestToPromise(store.clear()));
+  } catch (error) {
+    console.warn('[ResponseCache] Clear failed:', error);
+  }
+};
@@ -16,12 +16,18 @@ const DANGEROUS_EXTENSIONS = [
 
 // Allowed file extensions for uploads
 const ALLOWED_EXTENSIONS = [
-  '.html', '.css', '.js', '.ts', '.tsx', '.jsx',
+  '.html', '.css', '.js', '.ts', '.tsx', '.jsx', '.vue',
   '.json', '.md', '.txt', '.svg', '.png', '.jpg',
   '.jpeg', '.gif', '.webp', '.ico', '.pdf', '.woff',
   '.woff2', '.ttf', '.eot',
 ];
 
+// Allowed extensions whose files are stored as bytes, not text
+const BINARY_EXTENSIONS = [
+  '.png', '.jpg', '.jpeg', '.gif', '.webp', '.ico', '.pdf',
+  '.woff', '.woff2', '.ttf', '.eot',
+];
+
 // Maximum file sizes (in bytes)
 const MAX_FILE_SIZES = {
   image: 5 * 1024 * 1024,     // 5MB
@@ -30,6 +36,17 @@ const MAX_FILE_SIZES = {
   default: 2 * 1024 * 1024,   // 2MB
 };
 
+// Limits for uploaded project archives
+const MAX_ARCHIVE_ENTRIES = 500;
+const MAX_ARCHIVE_UNCOMPRESSED_BYTES = 50 * 1024 * 1024; // 50MB
+const MAX_COMPRESSION_RATIO = 100;
+// Small files compress unpredictably; the ratio is only checked above this size
+const COMPRESSION_RATIO_MIN_BYTES = 64 * 1024;
+
+// Unix file type bits marking a symbolic link
+const UNIX_FILE_TYPE_MASK = 0o170000;
+const UNIX_SYMLINK = 0o120000;
+
 /**
  * Validation schemas
  */
@@ -119,6 +136,14 @@ export const isFileExtensionAllowed = (filename: string): boolean => {
   return ALLOWED_EXTENSIONS.includes(ext);
 };
 
+/**
+ * Check if a file is a binary asset (image, font, document)
+ */
+export const isBinaryFile = (filename: string): boolean => {
+  const ext = filename.toLowerCase().slice(filename.lastIndexOf('.'));
+  return BINARY_EXTENSIONS.includes(ext);
+};
+
 /**
  * Validate file size
  */
@@ -129,6 +154,34 @@ export const isFileSizeValid = (
   return size <= MAX_FILE_SIZES[type];
 };
 
+/**
+ * Get the size category of a file from its extension
+ */
+export const getFileSizeType = (filename: string): 'image' | 'document' | 'code' | 'default' => {
+  const ext = filename.toLowerCase().slice(filename.lastIndexOf('.'));
+  
+  if (['.png', '.jpg', '.jpeg', '.gif', '.webp', '.svg'].includes(ext)) {
+    return 'image';
+  } else if (['.pdf', '.doc', '.docx'].includes(ext)) {
+    return 'document';
+  } else if (['.js', '.ts', '.tsx', '.jsx', '.html', '.css'].includes(ext)) {
+    return 'code';
+  }
+  
+  return 'default';
+};
+
+/**
+ * Build the error for a file over its size limit, or null
+ */
+const checkFileSize = (filename: string, size: number): string | null => {
+  const sizeType = getFileSizeType(filename);
+  if (isFileSizeValid(size, sizeType)) return null;
+  
+  const maxMB = MAX_FILE_SIZES[sizeType] / (1024 * 1024);
+  return `حجم الملف يتجاوز الحد المسموح (${maxMB}MB)`;
+};
+
 /**
  * Validate file for upload
  */
@@ -150,22 +203,69 @@ export const validateFile = (file: File): FileValidationResult => {
     errors.push('امتداد الملف غير مدعوم');
   }
   
-  // Determine file type category
-  const ext = file.name.toLowerCase().slice(file.name.lastIndexOf('.'));
-  let sizeType: 'image' | 'document' | 'code' | 'default' = 'default';
+  // Check file size
+  const sizeError = checkFileSize(file.name, file.size);
+  if (sizeError) {
+    errors.push(sizeError);
+  }
   
-  if (['.png', '.jpg', '.jpeg', '.gif', '.webp', '.svg'].includes(ext)) {
-    sizeType = 'image';
-  } else if (['.pdf', '.doc', '.docx'].includes(ext)) {
-    sizeType = 'document';
-  } else if (['.js', '.ts', '.tsx', '.jsx', '.html', '.css'].includes(ext)) {
-    sizeType = 'code';
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+};
+
+/**
+ * Check a string for control characters (U+0000-U+001F and U+007F)
+ */
+const hasControlCharacters = (text: string): boolean => {
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code < 0x20 || code === 0x7f) return true;
   }
+  return false;
+};
+
+// Maximum length of a project file path
+const MAX_PROJECT_PATH_LENGTH = 255;
+
+/**
+ * Validate a relative path for a file inside a project
+ */
+export const validateProjectPath = (path: string): FileValidationResult => {
+  const errors: string[] = [];
   
-  // Check file size
-  if (!isFileSizeValid(file.size, sizeType)) {
-    const maxMB = MAX_FILE_SIZES[sizeType] / (1024 * 1024);
-    errors.push(`حجم الملف يتجاوز الحد المسموح (${maxMB}MB)`);
+  if (typeof path !== 'string' || path.trim() === '') {
+    return { valid: false, errors: ['مسار الملف فارغ'] };
+  }
+  
+  if (path.length > MAX_PROJECT_PATH_LENGTH) {
+    errors.push('مسار الملف طويل جداً');
+  }
+  
+  // Absolute paths (Unix, Windows drive letters, UNC)
+  if (path.startsWith('/') || path.startsWith('\\') || /^[a-zA-Z]:/.test(path)) {
+    errors.push('المسارات المطلقة غير مسموح بها');
+  }
+  
+  if (path.includes('\\')) {
+    errors.push('استخدم / كفاصل في المسار');
+  }
+  
+  const segments = path.split(/[\\/]/);
+  if (segments.includes('..')) {
+    errors.push('المسار يحاول الخروج من مجلد المشروع');
+  }
+  if (segments.some((segment, index) => (segment === '' && index > 0) || segment === '.')) {
+    errors.push('المسار يحتوي على أجزاء فارغة');
+  }
+  
+  if (hasControlCharacters(path) || /[<>:"|?*]/.test(path)) {
+    errors.push('المسار يحتوي على أحرف غير مسموحة');
+  }
+  
+  if (!isFileExtensionAllowed(path)) {
+    errors.push('امتداد الملف غير مدعوم');
   }
   
   return {
@@ -174,6 +274,83 @@ export const validateFile = (file: File): FileValidationResult => {
   };
 };
 
+/**
+ * An entry of an uploaded archive, as declared by the archive
+ */
+export interface ArchiveEntryInfo {
+  // Path as stored in the archive, before any normalisation
+  path: string;
+  size: number;
+  compressedSize: number;
+  // Unix mode bits, when the archive was created on a Unix system
+  unixPermissions?: number | null;
+}
+
+/**
+ * Check if an archive entry is a symbolic link
+ */
+export const isArchiveSymlink = (entry: ArchiveEntryInfo): boolean => {
+  return typeof entry.unixPermissions === 'number'
+    && (entry.unixPermissions & UNIX_FILE_TYPE_MASK) === UNIX_SYMLINK;
+};
+
+/**
+ * Validate a single archive entry before it is extracted: path
+ * (zip-slip, absolute paths, extension), symlinks, size and
+ * compression ratio
+ */
+export const validateArchiveEntry = (entry: ArchiveEntryInfo): FileValidationResult => {
+  const errors = [...validateProjectPath(entry.path).errors];
+  
+  if (isArchiveSymlink(entry)) {
+    errors.push('الروابط الرمزية غير مسموح بها');
+  }
+  
+  const sizeError = checkFileSize(entry.path, entry.size);
+  if (sizeError) {
+    errors.push(sizeError);
+  }
+  
+  // Zip bombs expand tiny compressed data into huge files
+  if (entry.size > COMPRESSION_RATIO_MIN_BYTES
+    && (entry.compressedSize <= 0 || entry.size / entry.compressedSize > MAX_COMPRESSION_RATIO)) {
+    errors.push('نسبة ضغط الملف مرتفعة بشكل مريب');
+  }
+  
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+};
+
+/**
+ * Validate an archive as a whole: number of entries and total
+ * uncompressed size
+ */
+export const validateArchive = (entries: ArchiveEntryInfo[]): FileValidationResult => {
+  const errors: string[] = [];
+  
+  if (entries.length > MAX_ARCHIVE_ENTRIES) {
+    errors.push(`الأرشيف يحتوي على ملفات كثيرة جداً (الحد ${MAX_ARCHIVE_ENTRIES})`);
+  }
+  
+  const totalBytes = entries.reduce((total, entry) => total + entry.size, 0);
+  if (totalBytes > MAX_ARCHIVE_UNCOMPRESSED_BYTES) {
+    const maxMB = MAX_ARCHIVE_UNCOMPRESSED_BYTES / (1024 * 1024);
+    errors.push(`حجم الأرشيف بعد فك الضغط يتجاوز الحد المسموح (${maxMB}MB)`);
+  }
+  
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+};
+
+/**
+ * Get the maximum uncompressed size allowed for a file
+ */
+export const getMaxFileSize = (filename: string): number => MAX_FILE_SIZES[getFileSizeType(filename)];
+
 /**
  * Validate URL
  */
@@ -237,4 +414,9 @@ export const getSecurityStatus = () => ({
   allowedExtensions: ALLOWED_EXTENSIONS,
   dangerousExtensions: DANGEROUS_EXTENSIONS,
   maxFileSizes: MAX_FILE_SIZES,
+  archiveLimits: {
+    maxEntries: MAX_ARCHIVE_ENTRIES,
+    maxUncompressedBytes: MAX_ARCHIVE_UNCOMPRESSED_BYTES,
+    maxCompressionRatio: MAX_COMPRESSION_RATIO,
+  },
 });
@@ -0,0 +1,153 @@
+/**
+ * Structured Output Service
+ * =========================
+ * Gets typed, schema-validated JSON out of the AI service.
+ * Invalid replies are re-prompted with the validation errors.
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from '@/lib/zodJsonSchema';
+import { sendMessage, sendUserMessage, type AIMessage, type AIResponse } from './aiService';
+
+export interface StructuredOutputOptions {
+  maxRetries?: number;
+  userId?: string;
+  signal?: AbortSignal;
+}
+
+export type StructuredOutputResult<T> =
+  | { success: true; data: T; response: AIResponse; attempts: number }
+  | {
+      success: false;
+      error: string;
+      issues: string[];
+      raw?: string;
+      response?: AIResponse;
+      attempts: number;
+    };
+
+// Re-prompts after the first attempt
+const DEFAULT_MAX_RETRIES = 2;
+
+/**
+ * Build the system instruction describing the expected JSON
+ */
+const buildJsonInstruction = (schema: z.ZodTypeAny): AIMessage => ({
+  role: 'system',
+  content: [
+    'Reply ONLY with a single JSON value that matches this JSON Schema.',
+    'Do not wrap it in Markdown and do not add any explanation.',
+    JSON.stringify(zodToJsonSchema(schema)),
+  ].join('\n'),
+});
+
+/**
+ * Extract a JSON value from a model reply (raw, fenced, or embedded)
+ */
+export const extractJson = (text: string): { value?: unknown; error?: string } => {
+  const trimmed = text.trim();
+  const candidates = [trimmed];
+  
+  const fenced = /```(?:json)?\s*\n([\s\S]*?)```/i.exec(trimmed);
+  if (fenced) candidates.push(fenced[1].trim());
+  
+  const start = trimmed.search(/[[{]/);
+  const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+  if (start !== -1 && end > start) candidates.push(trimmed.slice(start, end + 1));
+  
+  for (const candidate of candidates) {
+    try {
+      return { value: JSON.parse(candidate) };
+    } catch {
+      // Try the next candidate
+    }
+  }
+  
+  return { error: 'The reply is not valid JSON.' };
+};
+
+/**
+ * Format zod issues as short "path: message" lines
+ */
+const formatIssues = (error: z.ZodError): string[] => {
+  return error.issues.map((issue) => {
+    const path = issue.path.length > 0 ? issue.path.join('.') : '(root)';
+    return `${path}: ${issue.message}`;
+  });
+};
+
+/**
+ * Send messages and return a reply validated against a zod schema.
+ * Invalid replies are sent back with the errors, up to maxRetries times.
+ */
+export const sendStructuredMessage = async <T extends z.ZodTypeAny>(
+  messages: AIMessage[],
+  schema: T,
+  options: StructuredOutputOptions = {}
+): Promise<StructuredOutputResult<z.infer<T>>> => {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const conversation: AIMessage[] = [buildJsonInstruction(schema), ...messages];
+  let issues: string[] = [];
+  let raw: string | undefined;
+  let response: AIResponse | undefined;
+  
+  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+    response = options.userId
+      ? await sendUserMessage(options.userId, conversation, { signal: options.signal })
+      : await sendMessage(conversation, { signal: options.signal });
+    
+    // The local pattern matcher cannot produce JSON, so retrying is pointless
+    if (!response.success || response.provider === 'local') {
+      return {
+        success: false,
+        error: response.error || 'Structured output requires an external AI provider.',
+        issues: [],
+        response,
+        attempts: attempt,
+      };
+    }
+    
+    raw = response.message;
+    const extracted = extractJson(raw);
+    
+    if (extracted.error) {
+      issues = [extracted.error];
+    } else {
+      const parsed = schema.safeParse(extracted.value);
+      
+      if (parsed.success) {
+        return { success: true, data: parsed.data, response, attempts: attempt };
+      }
+      
+      issues = formatIssues(parsed.error);
+    }
+    
+    conversation.push(
+      { role: 'assistant', content: raw },
+      {
+        role: 'user',
+        content: `Your reply did not match the schema:\n- ${issues.join('\n- ')}\nReply again with only the corrected JSON.`,
+      }
+    );
+  }
+  
+  return {
+    success: false,
+    error: 'The reply did not match the schema.',
+    issues,
+    raw,
+    response,
+    attempts: maxRetries + 1,
+  };
+};
+
+/**
+ * Ask a single question and get a schema-validated answer
+ */
+export const askStructured = async <T extends z.ZodTypeAny>(
+  question: string,
+  schema: T,
+  options: StructuredOutputOptions = {}
+): Promise<StructuredOutputResult<z.infer<T>>> => {
+  return sendStructuredMessage([{ role: 'user', content: question }], schema, options);
+};
@@ -0,0 +1,961 @@
+/**
+ * Template Service
+ * ================
+ * Registry of project starters. Each template has metadata, a preview
+ * thumbnail and its files as data: file contents are templates (see
+ * lib/templateEngine) rendered from shared parameters (name, language,
+ * colour, direction) and per-language messages.
+ */
+
+import { z } from 'zod';
+import { renderTemplateFile, type TemplateContext } from '@/lib/templateEngine';
+import { downloadProject, type DownloadResult, type ExportFormat, type ProjectFile } from './downloadService';
+import { projectNameSchema } from './securityService';
+
+export type TemplateLanguage = 'ar' | 'en';
+export type TemplateDirection = 'rtl' | 'ltr';
+export type TemplateCategory = 'static' | 'frontend' | 'backend';
+
+// Shapes drawn in a template's preview thumbnail
+export type TemplatePreview = 'page' | 'app' | 'api' | 'landing' | 'blog';
+
+export interface TemplateParams {
+  name: string;
+  language: TemplateLanguage;
+  color: string;
+  direction: TemplateDirection;
+}
+
+export interface ProjectTemplate {
+  id: string;
+  title: string;
+  description: string;
+  category: TemplateCategory;
+  tags: string[];
+  preview: TemplatePreview;
+  defaults: TemplateParams;
+  // Texts exposed to the files as `t`, per template language
+  messages: Record<TemplateLanguage, TemplateContext>;
+  files: ProjectFile[];
+}
+
+export interface TemplateRenderResult {
+  success: boolean;
+  files?: ProjectFile[];
+  params?: TemplateParams;
+  error?: string;
+}
+
+export const DEFAULT_TEMPLATE_ID = 'static-site';
+
+export const templateParamsSchema = z.object({
+  name: projectNameSchema,
+  language: z.enum(['ar', 'en']),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, { message: 'اللون يجب أن يكون بصيغة #RRGGBB' }),
+  direction: z.enum(['rtl', 'ltr']),
+});
+
+const DEFAULT_PARAMS: TemplateParams = {
+  name: 'my-project',
+  language: 'ar',
+  color: '#3b82f6',
+  direction: 'rtl',
+};
+
+// Shared <head> of the static HTML templates
+const HTML_HEAD = `<!DOCTYPE html>
+<html lang="{{ language }}" dir="{{ direction }}">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>{{ name }}</title>
+    <link rel="stylesheet" href="styles.css">
+</head>`;
+
+// Font stack that puts an Arabic font first for Arabic projects
+const FONT_FAMILY = `{{#if language == "ar"}}'Cairo', {{/if}}'Segoe UI', system-ui, sans-serif`;
+
+/**
+ * Static HTML/CSS/JS site (the original demo project)
+ */
+const staticSiteTemplate: ProjectTemplate = {
+  id: 'static-site',
+  title: 'موقع ثابت',
+  description: 'صفحة HTML و CSS و JavaScript بسيطة',
+  category: 'static',
+  tags: ['HTML', 'CSS', 'JavaScript'],
+  preview: 'page',
+  defaults: DEFAULT_PARAMS,
+  messages: {
+    ar: {
+      welcome: 'مرحباً بك في',
+      createdWith: 'تم إنشاء هذا المشروع بواسطة NTFLY Studio',
+      rights: 'جميع الحقوق محفوظة.',
+    },
+    en: {
+      welcome: 'Welcome to',
+      createdWith: 'This project was created with NTFLY Studio',
+      rights: 'All rights reserved.',
+    },
+  },
+  files: [
+    {
+      path: 'index.html',
+      content: `${HTML_HEAD}
+<body>
+    <header>
+        <nav>
+            <h1>{{ name }}</h1>
+        </nav>
+    </header>
+    <main>
+        <section class="hero">
+            <h2>{{ t.welcome }} {{ name }}</h2>
+            <p>{{ t.createdWith }}</p>
+        </section>
+    </main>
+    <footer>
+        <p>© {{ year }} {{ name }}. {{ t.rights }}</p>
+    </footer>
+    <script src="script.js"></script>
+</body>
+</html>`,
+      type: 'text',
+    },
+    {
+      path: 'styles.css',
+      content: `* {
+    margin: 0;
+    padding: 0;
+    box-sizing: border-box;
+}
+
+body {
+    font-family: ${FONT_FAMILY};
+    line-height: 1.6;
+    color: #333;
+}
+
+header {
+    background: linear-gradient(135deg, {{ color }}, #8b5cf6);
+    color: white;
+    padding: 1rem;
+}
+
+nav h1 {
+    font-size: 1.5rem;
+}
+
+.hero {
+    min-height: 60vh;
+    display: flex;
+    flex-direction: column;
+    justify-content: center;
+    align-items: center;
+    text-align: center;
+    padding: 2rem;
+    background: #f8fafc;
+}
+
+.hero h2 {
+    font-size: 2.5rem;
+    margin-bottom: 1rem;
+    color: #1e293b;
+}
+
+.hero p {
+    font-size: 1.25rem;
+    color: #64748b;
+}
+
+footer {
+    background: #1e293b;
+    color: white;
+    text-align: center;
+    padding: 1rem;
+}`,
+      type: 'text',
+    },
+    {
+      path: 'script.js',
+      content: `// {{ name }} JavaScript
+console.log('{{ name }} loaded successfully!');
+
+document.addEventListener('DOMContentLoaded', function() {
+    console.log('DOM ready');
+});`,
+      type: 'text',
+    },
+    {
+      path: 'README.md',
+      content: `# {{ name }}
+
+{{#if language == "ar"}}تم إنشاء هذا المشروع بواسطة **NTFLY Studio**.
+
+## البدء
+
+1. افتح \`index.html\` في المتصفح
+2. عدّل الملفات حسب الحاجة
+
+## الملفات
+
+- \`index.html\` - الصفحة الرئيسية
+- \`styles.css\` - أنماط CSS
+- \`script.js\` - JavaScript
+
+## الترخيص
+
+جميع الحقوق محفوظة © {{ year }}
+{{else}}Created with **NTFLY Studio**.
+
+## Getting started
+
+1. Open \`index.html\` in your browser
+2. Edit the files as needed
+
+## Files
+
+- \`index.html\` - Main page
+- \`styles.css\` - CSS styles
+- \`script.js\` - JavaScript
+
+## License
+
+All rights reserved © {{ year }}
+{{/if}}`,
+      type: 'text',
+    },
+  ],
+};
+
+/**
+ * React single-page app built with Vite
+ */
+const reactViteTemplate: ProjectTemplate = {
+  id: 'react-vite',
+  title: 'React + Vite',
+  description: 'تطبيق React جاهز للتطوير مع Vite',
+  category: 'frontend',
+  tags: ['React', 'Vite'],
+  preview: 'app',
+  defaults: { ...DEFAULT_PARAMS, name: 'react-app', color: '#61dafb' },
+  messages: {
+    ar: { intro: 'عدّل src/App.jsx وسيتم تحديث الصفحة تلقائياً.', clicks: 'عدد النقرات', about: 'تطبيق React مع Vite.' },
+    en: { intro: 'Edit src/App.jsx and the page updates automatically.', clicks: 'Clicks', about: 'React app powered by Vite.' },
+  },
+  files: [
+    {
+      path: 'package.json',
+      content: `{
+  "name": "{{ slug }}",
+  "private": true,
+  "version": "0.1.0",
+  "type": "module",
+  "scripts": {
+    "dev": "vite",
+    "build": "vite build",
+    "preview": "vite preview"
+  },
+  "dependencies": {
+    "react": "^18.3.1",
+    "react-dom": "^18.3.1"
+  },
+  "devDependencies": {
+    "@vitejs/plugin-react": "^4.3.1",
+    "vite": "^5.4.0"
+  }
+}`,
+      type: 'text',
+    },
+    {
+      path: 'index.html',
+      content: `<!DOCTYPE html>
+<html lang="{{ language }}" dir="{{ direction }}">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>{{ name }}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.jsx"></script>
+  </body>
+</html>`,
+      type: 'text',
+    },
+    {
+      path: 'vite.config.js',
+      content: `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()],
+});`,
+      type: 'text',
+    },
+    {
+      path: 'src/main.jsx',
+      content: `import React from 'react';
+import ReactDOM from 'react-dom/client';
+import App from './App.jsx';
+import './App.css';
+
+ReactDOM.createRoot(document.getElementById('root')).render(
+  <React.StrictMode>
+    <App />
+  </React.StrictMode>
+);`,
+      type: 'text',
+    },
+    {
+      path: 'src/App.jsx',
+      content: `import { useState } from 'react';
+
+export default function App() {
+  const [count, setCount] = useState(0);
+
+  return (
+    <main className="app">
+      <h1>{{ name }}</h1>
+      <p>{{ t.intro }}</p>
+      <button onClick={() => setCount((value) => value + 1)}>
+        {{ t.clicks }}: {count}
+      </button>
+    </main>
+  );
+}`,
+      type: 'text',
+    },
+    {
+      path: 'src/App.css',
+      content: `:root {
+  --accent: {{ color }};
+  font-family: ${FONT_FAMILY};
+}
+
+.app {
+  min-height: 100vh;
+  display: grid;
+  place-content: center;
+  gap: 1rem;
+  text-align: center;
+}
+
+button {
+  padding: 0.75rem 1.5rem;
+  border: none;
+  border-radius: 0.5rem;
+  background: var(--accent);
+  color: white;
+  font-size: 1rem;
+  cursor: pointer;
+}`,
+      type: 'text',
+    },
+    {
+      path: 'README.md',
+      content: `# {{ name }}
+
+{{ t.about }}
+
+\`\`\`bash
+npm install
+npm run dev
+\`\`\`
+`,
+      type: 'text',
+    },
+  ],
+};
+
+/**
+ * Vue 3 single-page app built with Vite
+ */
+const vueTemplate: ProjectTemplate = {
+  id: 'vue',
+  title: 'Vue',
+  description: 'تطبيق Vue 3 مع Vite',
+  category: 'frontend',
+  tags: ['Vue', 'Vite'],
+  preview: 'app',
+  defaults: { ...DEFAULT_PARAMS, name: 'vue-app', color: '#42b883' },
+  messages: {
+    ar: { intro: 'عدّل src/App.vue وسيتم تحديث الصفحة تلقائياً.', clicks: 'عدد النقرات', about: 'تطبيق Vue 3 مع Vite.' },
+    en: { intro: 'Edit src/App.vue and the page updates automatically.', clicks: 'Clicks', about: 'Vue 3 app powered by Vite.' },
+  },
+  files: [
+    {
+      path: 'package.json',
+      content: `{
+  "name": "{{ slug }}",
+  "private": true,
+  "version": "0.1.0",
+  "type": "module",
+  "scripts": {
+    "dev": "vite",
+    "build": "vite build",
+    "preview": "vite preview"
+  },
+  "dependencies": {
+    "vue": "^3.4.0"
+  },
+  "devDependencies": {
+    "@vitejs/plugin-vue": "^5.1.0",
+    "vite": "^5.4.0"
+  }
+}`,
+      type: 'text',
+    },
+    {
+      path: 'index.html',
+      content: `<!DOCTYPE html>
+<html lang="{{ language }}" dir="{{ direction }}">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>{{ name }}</title>
+  </head>
+  <body>
+    <div id="app"></div>
+    <script type="module" src="/src/main.js"></script>
+  </body>
+</html>`,
+      type: 'text',
+    },
+    {
+      path: 'vite.config.js',
+      content: `import { defineConfig } from 'vite';
+import vue from '@vitejs/plugin-vue';
+
+export default defineConfig({
+  plugins: [vue()],
+});`,
+      type: 'text',
+    },
+    {
+      path: 'src/main.js',
+      content: `import { createApp } from 'vue';
+import App from './App.vue';
+
+createApp(App).mount('#app');`,
+      type: 'text',
+    },
+    {
+      path: 'src/App.vue',
+      content: `<script setup>
+import { ref } from 'vue';
+
+const count = ref(0);
+</script>
+
+<template>
+  <main class="app">
+    <h1>{{ name }}</h1>
+    <p>{{ t.intro }}</p>
+    <button @click="count++">{{ t.clicks }}: \\{{ count }}</button>
+  </main>
+</template>
+
+<style>
+.app {
+  min-height: 100vh;
+  display: grid;
+  place-content: center;
+  gap: 1rem;
+  text-align: center;
+  font-family: ${FONT_FAMILY};
+}
+
+button {
+  padding: 0.75rem 1.5rem;
+  border: none;
+  border-radius: 0.5rem;
+  background: {{ color | css }};
+  color: white;
+  cursor: pointer;
+}
+</style>`,
+      type: 'text',
+    },
+    {
+      path: 'README.md',
+      content: `# {{ name }}
+
+{{ t.about }}
+
+\`\`\`bash
+npm install
+npm run dev
+\`\`\`
+`,
+      type: 'text',
+    },
+  ],
+};
+
+/**
+ * Express REST API with an in-memory resource
+ */
+const expressApiTemplate: ProjectTemplate = {
+  id: 'express-api',
+  title: 'Express API',
+  description: 'واجهة برمجية REST مع Node.js و Express',
+  category: 'backend',
+  tags: ['Node.js', 'Express', 'REST'],
+  preview: 'api',
+  defaults: { ...DEFAULT_PARAMS, name: 'express-api', language: 'en', direction: 'ltr', color: '#22c55e' },
+  messages: {
+    ar: { titleRequired: 'العنوان مطلوب', about: 'واجهة برمجية REST مبنية على Express.', method: 'الطريقة', path: 'المسار' },
+    en: { titleRequired: 'title is required', about: 'REST API built with Express.', method: 'Method', path: 'Path' },
+  },
+  files: [
+    {
+      path: 'package.json',
+      content: `{
+  "name": "{{ slug }}",
+  "private": true,
+  "version": "0.1.0",
+  "type": "module",
+  "scripts": {
+    "start": "node server.js",
+    "dev": "node --watch server.js"
+  },
+  "dependencies": {
+    "express": "^4.19.2"
+  }
+}`,
+      type: 'text',
+    },
+    {
+      path: 'server.js',
+      content: `import express from 'express';
+
+const app = express();
+const port = process.env.PORT || 3000;
+
+app.use(express.json());
+
+// In-memory storage - replace with a database
+const items = new Map();
+let nextId = 1;
+
+app.get('/api/health', (req, res) => {
+  res.json({ status: 'ok', service: '{{ name }}' });
+});
+
+app.get('/api/items', (req, res) => {
+  res.json(Array.from(items.values()));
+});
+
+app.post('/api/items', (req, res) => {
+  if (typeof req.body?.title !== 'string' || !req.body.title.trim()) {
+    return res.status(400).json({ error: '{{ t.titleRequired }}' });
+  }
+  const item = { id: nextId++, title: req.body.title.trim() };
+  items.set(item.id, item);
+  res.status(201).json(item);
+});
+
+app.delete('/api/items/:id', (req, res) => {
+  const deleted = items.delete(Number(req.params.id));
+  res.status(deleted ? 204 : 404).end();
+});
+
+app.listen(port, () => {
+  console.log('{{ name }} listening on port ' + port);
+});`,
+      type: 'text',
+    },
+    {
+      path: 'README.md',
+      content: `# {{ name }}
+
+{{ t.about }}
+
+\`\`\`bash
+npm install
+npm start
+\`\`\`
+
+| {{ t.method }} | {{ t.path }} |
+| --- | --- |
+| GET | /api/health |
+| GET | /api/items |
+| POST | /api/items |
+| DELETE | /api/items/:id |
+`,
+      type: 'text',
+    },
+  ],
+};
+
+/**
+ * Single-page marketing landing page
+ */
+const landingPageTemplate: ProjectTemplate = {
+  id: 'landing-page',
+  title: 'صفحة هبوط',
+  description: 'صفحة تسويقية مع مزايا ونموذج اشتراك',
+  category: 'static',
+  tags: ['HTML', 'CSS', 'Marketing'],
+  preview: 'landing',
+  defaults: { ...DEFAULT_PARAMS, name: 'landing-page', color: '#8b5cf6' },
+  messages: {
+    ar: {
+      tagline: 'الحل الأبسط لإطلاق فكرتك.',
+      cta: 'ابدأ الآن',
+      features: [
+        { title: 'سريع', text: 'صفحات خفيفة تُحمّل في لحظات.' },
+        { title: 'متجاوب', text: 'يعمل على كل الشاشات.' },
+        { title: 'سهل التعديل', text: 'HTML و CSS فقط.' },
+      ],
+      newsletter: 'اشترك في النشرة',
+      email: 'بريدك الإلكتروني',
+      subscribe: 'اشترك',
+    },
+    en: {
+      tagline: 'The simplest way to launch your idea.',
+      cta: 'Get started',
+      features: [
+        { title: 'Fast', text: 'Lightweight pages that load instantly.' },
+        { title: 'Responsive', text: 'Works on every screen.' },
+        { title: 'Easy to edit', text: 'Just HTML and CSS.' },
+      ],
+      newsletter: 'Join the newsletter',
+      email: 'Your email',
+      subscribe: 'Subscribe',
+    },
+  },
+  files: [
+    {
+      path: 'index.html',
+      content: `${HTML_HEAD}
+<body>
+    <section class="hero">
+        <h1>{{ name }}</h1>
+        <p>{{ t.tagline }}</p>
+        <a class="cta" href="#signup">{{ t.cta }}</a>
+    </section>
+    <section class="features">
+{{#each t.features as feature}}        <article>
+            <h2>{{ feature.title }}</h2>
+            <p>{{ feature.text }}</p>
+        </article>
+{{/each}}    </section>
+    <section id="signup" class="signup">
+        <h2>{{ t.newsletter }}</h2>
+        <form>
+            <input type="email" placeholder="{{ t.email }}" required>
+            <button type="submit">{{ t.subscribe }}</button>
+        </form>
+    </section>
+</body>
+</html>`,
+      type: 'text',
+    },
+    {
+      path: 'styles.css',
+      content: `:root {
+    --accent: {{ color }};
+}
+
+* {
+    margin: 0;
+    padding: 0;
+    box-sizing: border-box;
+}
+
+body {
+    font-family: ${FONT_FAMILY};
+    color: #1e293b;
+}
+
+.hero {
+    min-height: 70vh;
+    display: flex;
+    flex-direction: column;
+    justify-content: center;
+    align-items: center;
+    gap: 1rem;
+    text-align: center;
+    background: linear-gradient(135deg, var(--accent), #0f172a);
+    color: white;
+    padding: 2rem;
+}
+
+.hero h1 {
+    font-size: 3rem;
+}
+
+.cta,
+.signup button {
+    padding: 0.75rem 2rem;
+    border: none;
+    border-radius: 999px;
+    background: white;
+    color: var(--accent);
+    font-weight: bold;
+    text-decoration: none;
+    cursor: pointer;
+}
+
+.features {
+    display: grid;
+    grid-template-columns: repeat(auto-fit, minmax(220px, 1fr));
+    gap: 2rem;
+    padding: 4rem 2rem;
+}
+
+.signup {
+    padding: 4rem 2rem;
+    text-align: center;
+    background: #f8fafc;
+}
+
+.signup form {
+    display: flex;
+    justify-content: center;
+    gap: 0.5rem;
+    margin-top: 1rem;
+}
+
+.signup input {
+    padding: 0.75rem 1rem;
+    border: 1px solid #cbd5e1;
+    border-radius: 999px;
+}
+
+.signup button {
+    background: var(--accent);
+    color: white;
+}`,
+      type: 'text',
+    },
+  ],
+};
+
+/**
+ * Right-to-left blog with a post page
+ */
+const rtlBlogTemplate: ProjectTemplate = {
+  id: 'rtl-blog',
+  title: 'مدونة عربية',
+  description: 'مدونة من اليمين إلى اليسار مع صفحة تدوينة',
+  category: 'static',
+  tags: ['HTML', 'CSS', 'RTL'],
+  preview: 'blog',
+  defaults: { ...DEFAULT_PARAMS, name: 'my-blog', color: '#0f766e' },
+  messages: {
+    ar: {
+      posts: [
+        { title: 'أهلاً بالعالم', summary: 'أول تدوينة في المدونة.' },
+        { title: 'كيف تبدأ', summary: 'خطوات بسيطة لكتابة تدوينتك الأولى.' },
+      ],
+      back: '← العودة إلى التدوينات',
+    },
+    en: {
+      posts: [
+        { title: 'Hello world', summary: 'The first post on the blog.' },
+        { title: 'Getting started', summary: 'Simple steps to write your first post.' },
+      ],
+      back: '← Back to posts',
+    },
+  },
+  files: [
+    {
+      path: 'index.html',
+      content: `${HTML_HEAD}
+<body>
+    <header><a href="index.html">{{ name }}</a></header>
+    <main>
+{{#each t.posts as post}}        <article>
+            <h2><a href="post.html">{{ post.title }}</a></h2>
+            <p>{{ post.summary }}</p>
+        </article>
+{{/each}}    </main>
+</body>
+</html>`,
+      type: 'text',
+    },
+    {
+      path: 'post.html',
+      content: `${HTML_HEAD}
+<body>
+    <header><a href="index.html">{{ name }}</a></header>
+    <main>
+        <article>
+            <h1>{{ t.posts.0.title }}</h1>
+            <p>{{ t.posts.0.summary }}</p>
+            <a href="index.html">{{ t.back }}</a>
+        </article>
+    </main>
+</body>
+</html>`,
+      type: 'text',
+    },
+    {
+      path: 'styles.css',
+      content: `body {
+    max-width: 720px;
+    margin: 0 auto;
+    padding: 1rem;
+    font-family: {{#if language == "ar"}}'Cairo', 'Noto Naskh Arabic', {{/if}}serif;
+    line-height: 1.9;
+    color: #1e293b;
+}
+
+header {
+    padding: 1rem 0;
+    border-bottom: 3px solid {{ color }};
+    margin-bottom: 2rem;
+}
+
+header a {
+    font-size: 1.5rem;
+    font-weight: bold;
+    color: {{ color }};
+    text-decoration: none;
+}
+
+article {
+    margin-bottom: 2rem;
+}
+
+article a {
+    color: inherit;
+}`,
+      type: 'text',
+    },
+  ],
+};
+
+/**
+ * Turn a project name into a package/file-safe slug
+ */
+const toSlug = (name: string): string => {
+  return name.trim().replace(/\s+/g, '-').replace(/[^\p{L}\p{N}._-]/gu, '').toLowerCase() || 'project';
+};
+
+/**
+ * Values available to a template's files
+ */
+const createTemplateContext = (template: ProjectTemplate, params: TemplateParams): TemplateContext => ({
+  ...params,
+  slug: toSlug(params.name),
+  year: new Date().getFullYear(),
+  t: template.messages[params.language],
+});
+
+// Template registry, in display order
+const templates: Map<string, ProjectTemplate> = new Map();
+
+/**
+ * Add a template to the registry (replaces one with the same id)
+ */
+export const registerTemplate = (template: ProjectTemplate): void => {
+  templates.set(template.id, template);
+};
+
+[
+  staticSiteTemplate,
+  reactViteTemplate,
+  vueTemplate,
+  expressApiTemplate,
+  landingPageTemplate,
+  rtlBlogTemplate,
+].forEach(registerTemplate);
+
+/**
+ * List registered templates
+ */
+export const listTemplates = (): ProjectTemplate[] => Array.from(templates.values());
+
+/**
+ * Get a template by id
+ */
+export const getTemplate = (id: string): ProjectTemplate | null => templates.get(id) || null;
+
+/**
+ * Validate parameters, filling gaps with the template defaults
+ */
+export const resolveTemplateParams = (
+  template: ProjectTemplate,
+  params: Partial<TemplateParams> = {}
+): { success: boolean; params?: TemplateParams; error?: string } => {
+  const result = templateParamsSchema.safeParse({ ...template.defaults, ...params });
+  if (!result.success) {
+    return { success: false, error: result.error.errors[0].message };
+  }
+  return { success: true, params: result.data as TemplateParams };
+};
+
+/**
+ * Build a template's files for the given parameters
+ */
+export const renderTemplateFiles = (
+  id: string,
+  params: Partial<TemplateParams> = {}
+): TemplateRenderResult => {
+  const template = getTemplate(id);
+  if (!template) {
+    return { success: false, error: 'القالب غير موجود' };
+  }
+
+  const resolved = resolveTemplateParams(template, params);
+  if (!resolved.success) {
+    return { success: false, error: resolved.error };
+  }
+
+  try {
+    const context = createTemplateContext(template, resolved.params);
+    const files = template.files.map((file) => (
+      file.type === 'binary' ? file : renderTemplateFile(file, context)
+    ));
+    return { success: true, files, params: resolved.params };
+  } catch (error) {
+    console.error('[Templates] Failed to render template:', id, error);
+    return { success: false, error: 'تعذر إنشاء ملفات القالب' };
+  }
+};
+
+/**
+ * Export formats a template can be downloaded in; only static sites
+ * work as a single HTML file
+ */
+export const getTemplateExportFormats = (template: ProjectTemplate): ExportFormat[] => {
+  return template.category === 'static' ? ['zip', 'tar.gz', 'html'] : ['zip', 'tar.gz'];
+};
+
+/**
+ * Build a template and download it in the chosen format
+ */
+export const downloadTemplate = async (
+  id: string,
+  params: Partial<TemplateParams> = {},
+  format: ExportFormat = 'zip'
+): Promise<DownloadResult> => {
+  const rendered = renderTemplateFiles(id, params);
+  if (!rendered.success) {
+    return { success: false, error: rendered.error };
+  }
+  if (!getTemplateExportFormats(getTemplate(id)).includes(format)) {
+    return { success: false, error: 'صيغة التصدير غير مدعومة لهذا القالب' };
+  }
+  return downloadProject(rendered.params.name, rendered.files, format);
+};
+
+/**
+ * Draw the preview thumbnail of a template as an SVG data URL
+ */
+export const getTemplateThumbnail = (template: ProjectTemplate, color: string = template.defaults.color): string => {
+  const shapes: Record<TemplatePreview, string> = {
+    page: `<rect width="160" height="22" fill="${color}"/><rect x="30" y="42" width="100" height="10" rx="3" fill="#1e293b"/><rect x="45" y="60" width="70" height="6" rx="3" fill="#94a3b8"/><rect y="98" width="160" height="22" fill="#1e293b"/>`,
+    app: `<rect x="10" y="10" width="140" height="100" rx="8" fill="#fff" stroke="#e2e8f0"/><circle cx="80" cy="45" r="16" fill="${color}"/><rect x="50" y="72" width="60" height="14" rx="7" fill="${color}"/>`,
+    api: `<rect width="160" height="120" fill="#0f172a"/><rect x="14" y="20" width="30" height="8" rx="2" fill="${color}"/><rect x="50" y="20" width="80" height="8" rx="2" fill="#64748b"/><rect x="14" y="40" width="36" height="8" rx="2" fill="${color}"/><rect x="56" y="40" width="60" height="8" rx="2" fill="#64748b"/><rect x="14" y="60" width="30" height="8" rx="2" fill="${color}"/><rect x="50" y="60" width="90" height="8" rx="2" fill="#64748b"/>`,
+    landing: `<rect width="160" height="60" fill="${color}"/><rect x="45" y="18" width="70" height="10" rx="3" fill="#fff"/><rect x="60" y="36" width="40" height="10" rx="5" fill="#fff"/><rect x="12" y="74" width="40" height="30" rx="4" fill="#e2e8f0"/><rect x="60" y="74" width="40" height="30" rx="4" fill="#e2e8f0"/><rect x="108" y="74" width="40" height="30" rx="4" fill="#e2e8f0"/>`,
+    blog: `<rect x="20" y="14" width="120" height="4" fill="${color}"/><rect x="70" y="26" width="70" height="8" rx="2" fill="#1e293b"/><rect x="40" y="40" width="100" height="5" rx="2" fill="#94a3b8"/><rect x="70" y="62" width="70" height="8" rx="2" fill="#1e293b"/><rect x="40" y="76" width="100" height="5" rx="2" fill="#94a3b8"/><rect x="55" y="86" width="85" height="5" rx="2" fill="#94a3b8"/>`,
+  };
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 160 120"><rect width="160" height="120" fill="#f8fafc"/>${shapes[template.preview]}</svg>`;
+
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
@@ -0,0 +1,219 @@
+/**
+ * Tool Service
+ * ============
+ * Lets the AI call tools (functions) and runs the call/result loop
+ * until the model answers in plain text. Ships built-in tools for the
+ * current project's files and the user's quota.
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from '@/lib/zodJsonSchema';
+import {
+  sendMessage,
+  sendUserMessage,
+  type AIMessage,
+  type AIResponse,
+  type AIToolCall,
+  type AIToolSpec,
+} from './aiService';
+import { getProject, getProjectFileBytes, readProjectFile, writeProjectFile } from './projectService';
+import { getUserQuotaStatus } from './quotaService';
+import { isBinaryFile, validateProjectPath } from './securityService';
+
+export interface AITool<T extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  parameters: T;
+  handler: (args: z.infer<T>) => unknown | Promise<unknown>;
+}
+
+export interface ToolRunOptions {
+  userId?: string;
+  signal?: AbortSignal;
+  maxIterations?: number;
+}
+
+export interface ToolRunResult {
+  response: AIResponse;
+  messages: AIMessage[];
+  toolCalls: number;
+  error?: string;
+}
+
+// Model round-trips before giving up on a tool loop
+const DEFAULT_MAX_ITERATIONS = 5;
+
+// Tool names accepted by all supported providers
+const TOOL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_-]{0,63}$/;
+
+/**
+ * Define a tool with a zod parameter schema
+ */
+export const defineTool = <T extends z.ZodTypeAny>(tool: AITool<T>): AITool<T> => {
+  if (!TOOL_NAME_PATTERN.test(tool.name)) {
+    throw new Error(`Invalid tool name: ${tool.name}`);
+  }
+
+  return tool;
+};
+
+/**
+ * Describe tools in the provider-neutral format sent to the AI service
+ */
+export const toToolSpecs = (tools: AITool[]): AIToolSpec[] => {
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    parameters: zodToJsonSchema(tool.parameters),
+  }));
+};
+
+/**
+ * Execute a single tool call. Errors are returned to the model as data
+ * so it can correct itself instead of aborting the loop.
+ */
+const executeToolCall = async (call: AIToolCall, tools: AITool[]): Promise<unknown> => {
+  const tool = tools.find((entry) => entry.name === call.name);
+
+  if (!tool) {
+    return { error: `Unknown tool: ${call.name}` };
+  }
+
+  const parsed = tool.parameters.safeParse(call.arguments);
+
+  if (!parsed.success) {
+    return {
+      error: 'Invalid arguments',
+      issues: parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+    };
+  }
+
+  try {
+    return await tool.handler(parsed.data);
+  } catch (error) {
+    console.warn(`[ToolService] Tool ${call.name} failed:`, error);
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * Send messages with tools available, executing requested tool calls
+ * and feeding their results back until the model answers.
+ */
+export const runWithTools = async (
+  messages: AIMessage[],
+  tools: AITool[],
+  options: ToolRunOptions = {}
+): Promise<ToolRunResult> => {
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  const specs = toToolSpecs(tools);
+  const conversation = [...messages];
+  let toolCalls = 0;
+  let response: AIResponse | undefined;
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    response = options.userId
+      ? await sendUserMessage(options.userId, conversation, { signal: options.signal, tools: specs })
+      : await sendMessage(conversation, { signal: options.signal, tools: specs });
+
+    if (!response.success || !response.toolCalls?.length) {
+      return { response, messages: conversation, toolCalls };
+    }
+
+    conversation.push({ role: 'assistant', content: response.message, toolCalls: response.toolCalls });
+
+    for (const call of response.toolCalls) {
+      const result = await executeToolCall(call, tools);
+      toolCalls++;
+
+      conversation.push({
+        role: 'tool',
+        content: JSON.stringify(result ?? null),
+        toolCallId: call.id,
+        name: call.name,
+      });
+    }
+  }
+
+  return {
+    response,
+    messages: conversation,
+    toolCalls,
+    error: 'تم تجاوز الحد الأقصى لاستدعاءات الأدوات',
+  };
+};
+
+/**
+ * Built-in tools scoped to one of the user's projects
+ */
+export const createProjectTools = (userId: string, projectId: string): AITool[] => {
+  const getOwnedProject = () => {
+    const project = getProject(projectId);
+    if (!project || project.userId !== userId) {
+      throw new Error('Project not found');
+    }
+    return project;
+  };
+
+  return [
+    defineTool({
+      name: 'list_project_files',
+      description: 'List the paths of all files in the current project.',
+      parameters: z.object({}),
+      handler: () => ({ files: getOwnedProject().files.map((file) => file.path) }),
+    }),
+    defineTool({
+      name: 'read_project_file',
+      description: 'Read the content of a file in the current project.',
+      parameters: z.object({
+        path: z.string().describe('Relative file path, e.g. src/App.tsx'),
+      }),
+      handler: ({ path }) => {
+        getOwnedProject();
+        const file = readProjectFile(projectId, path);
+        if (!file) {
+          return { error: `File not found: ${path}` };
+        }
+        // Base64 bytes are of no use to the model and waste its context
+        if (file.type === 'binary') {
+          return { path: file.path, binary: true, bytes: getProjectFileBytes(file) };
+        }
+        return { path: file.path, content: file.content };
+      },
+    }),
+    defineTool({
+      name: 'write_project_file',
+      description: 'Create or overwrite a file in the current project.',
+      parameters: z.object({
+        path: z.string().describe('Relative file path, e.g. src/App.tsx'),
+        content: z.string().describe('The full new content of the file'),
+      }),
+      handler: ({ path, content }) => {
+        getOwnedProject();
+        const pathResult = validateProjectPath(path);
+        if (!pathResult.valid) {
+          return { error: pathResult.errors.join(', ') };
+        }
+        if (isBinaryFile(path)) {
+          return { error: 'Binary files (images, fonts, PDFs) cannot be written as text' };
+        }
+
+        const result = writeProjectFile(projectId, { path, content, type: 'text' });
+        return result.success ? { success: true, path } : { error: result.error };
+      },
+    }),
+    defineTool({
+      name: 'check_quota',
+      description: "Check the user's remaining projects, API calls and storage.",
+      parameters: z.object({}),
+      handler: () => {
+        const status = getUserQuotaStatus(userId);
+        return {
+          projects: { remaining: status.projects.remaining, limit: status.projects.limit },
+          apiCalls: { remaining: status.apiCalls.remaining, limit: status.apiCalls.limit },
+          storageMB: { remaining: status.storage.remaining, limit: status.storage.limit },
+        };
+      },
+    }),
+  ];
+};
@@ -0,0 +1,223 @@
+/**
+ * Usage Service
+ * =============
+ * Tracks AI token usage and estimated cost per user.
+ * Currently uses in-memory storage - ready for database integration.
+ * 
+ * Does NOT require database connection to function.
+ */
+
+import type { AIMessage, AIUsage } from './aiService';
+
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface ModelUsage {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUSD: number;
+}
+
+export interface UserUsageLedger {
+  userId: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUSD: number;
+  byModel: Record<string, ModelUsage>;
+  lastCallAt: Date | null;
+}
+
+// Prices in USD per million tokens. Longer keys win on prefix matches,
+// so dated model names (e.g. gpt-4o-mini-2024-07-18) resolve correctly.
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+  'claude-3-5-haiku': { inputPerMillion: 0.8, outputPerMillion: 4 },
+  'claude-3-5-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-7-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'gemini-1.5-flash': { inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  'gemini-1.5-pro': { inputPerMillion: 1.25, outputPerMillion: 5 },
+  'gemini-2.0-flash': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'local': { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+// Fixed per-message overhead used by chat formats (role markers etc.)
+const TOKENS_PER_MESSAGE = 4;
+
+// In-memory storage for usage ledgers
+const usageLedgers: Map<string, UserUsageLedger> = new Map();
+
+/**
+ * Estimate token count for text.
+ * ASCII averages ~4 characters per token; Arabic and other scripts ~2.
+ */
+export const estimateTokens = (text: string): number => {
+  if (!text) return 0;
+  
+  let ascii = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 128) ascii++;
+  }
+  
+  return Math.ceil(ascii / 4 + (text.length - ascii) / 2);
+};
+
+/**
+ * Estimate token count for a list of chat messages
+ */
+export const estimateMessagesTokens = (messages: AIMessage[]): number => {
+  return messages.reduce(
+    (total, message) => total + estimateTokens(message.content) + TOKENS_PER_MESSAGE,
+    0
+  );
+};
+
+/**
+ * Estimate token usage for a request and its reply
+ */
+export const estimateUsage = (messages: AIMessage[], reply: string): AIUsage => {
+  const promptTokens = estimateMessagesTokens(messages);
+  const completionTokens = estimateTokens(reply);
+  
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    estimated: true,
+  };
+};
+
+/**
+ * Get price for a model (exact match first, then longest prefix)
+ */
+export const getModelPrice = (model: string): ModelPrice | null => {
+  if (MODEL_PRICES[model]) return MODEL_PRICES[model];
+  
+  const prefix = Object.keys(MODEL_PRICES)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  
+  return prefix ? MODEL_PRICES[prefix] : null;
+};
+
+/**
+ * Calculate estimated cost in USD, or null for unpriced models
+ */
+export const calculateCost = (model: string, usage: AIUsage): number | null => {
+  const price = getModelPrice(model);
+  if (!price) return null;
+  
+  return (
+    (usage.promptTokens * price.inputPerMillion +
+      usage.completionTokens * price.outputPerMillion) / 1_000_000
+  );
+};
+
+/**
+ * Get or create ledger for a user
+ */
+const getOrCreateLedger = (userId: string): UserUsageLedger => {
+  let ledger = usageLedgers.get(userId);
+  
+  if (!ledger) {
+    ledger = {
+      userId,
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      costUSD: 0,
+      byModel: {},
+      lastCallAt: null,
+    };
+    
+    usageLedgers.set(userId, ledger);
+  }
+  
+  return ledger;
+};
+
+/**
+ * Record usage of one AI call
+ */
+export const recordUsage = (
+  userId: string,
+  model: string,
+  usage: AIUsage,
+  costUSD: number | null
+): UserUsageLedger => {
+  const ledger = getOrCreateLedger(userId);
+  const cost = costUSD ?? 0;
+  
+  ledger.calls++;
+  ledger.promptTokens += usage.promptTokens;
+  ledger.completionTokens += usage.completionTokens;
+  ledger.totalTokens += usage.totalTokens;
+  ledger.costUSD += cost;
+  ledger.lastCallAt = new Date();
+  
+  const modelUsage = ledger.byModel[model] || {
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    costUSD: 0,
+  };
+  modelUsage.calls++;
+  modelUsage.promptTokens += usage.promptTokens;
+  modelUsage.completionTokens += usage.completionTokens;
+  modelUsage.costUSD += cost;
+  ledger.byModel[model] = modelUsage;
+  
+  if (import.meta.env.DEV) {
+    console.log('[UsageService] Usage recorded:', {
+      userId,
+      model,
+      tokens: usage.totalTokens,
+      cost,
+    });
+  }
+  
+  return ledger;
+};
+
+/**
+ * Get a user's usage ledger
+ */
+export const getUserUsage = (userId: string): UserUsageLedger => {
+  return { ...getOrCreateLedger(userId) };
+};
+
+/**
+ * Get all usage ledgers, most expensive first (admin function)
+ */
+export const getAllUsageLedgers = (): UserUsageLedger[] => {
+  return Array.from(usageLedgers.values()).sort((a, b) => b.costUSD - a.costUSD);
+};
+
+/**
+ * Get the model price table
+ */
+export const getModelPrices = (): Record<string, ModelPrice> => {
+  return { ...MODEL_PRICES };
+};
+
+/**
+ * Reset a user's usage ledger (admin function)
+ */
+export const resetUserUsage = (userId: string): void => {
+  usageLedgers.delete(userId);
+};
+
+/**
+ * Clear all usage ledgers from memory
+ */
+export const clearUsageLedgers = (): void => {
+  usageLedgers.clear();
+};